@@ -1,57 +1,313 @@
-import { Component, ChangeDetectionStrategy, signal, inject } from '@angular/core';
+import { Component, ChangeDetectionStrategy, signal, inject, computed } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { Correction, Status } from './models';
-import { FileParserService } from './services/file-parser.service';
-import { PdfService } from './services/pdf.service';
+import { ColumnProfile, Correction, DetectedHeader, FAR_PAGE_DISTANCE, ManualPlacement, MarkOutput, OffsetRange, OffsetSuggestion, PageMapping, PageMode, PlacementOccurrence, PlacementResult, QcIssue, SkippedRow, Status } from './models';
+import { ColumnMappingRequiredError, FileParserService } from './services/file-parser.service';
+import { ColumnProfileService } from './services/column-profile.service';
+import { PageLabels, PdfService } from './services/pdf.service';
+import { ReportService } from './services/report.service';
+import { PageOffsetService } from './services/page-offset.service';
+import { StyleThemeService } from './services/style-theme.service';
+import { ColumnMapperComponent, ColumnMappingResult } from './components/column-mapper/column-mapper.component';
+import { NoteRulesEditorComponent } from './components/note-rules-editor/note-rules-editor.component';
+import { CorrectionLegendComponent } from './components/correction-legend/correction-legend.component';
+import { StatusRulesEditorComponent } from './components/status-rules-editor/status-rules-editor.component';
+import { StyleThemeEditorComponent } from './components/style-theme-editor/style-theme-editor.component';
+import { CorrectionsTableComponent } from './components/corrections-table/corrections-table.component';
+import { ManualPlacementComponent } from './components/manual-placement/manual-placement.component';
 
-type UIState = 'idle' | 'parsing' | 'confirm' | 'generating' | 'complete';
+type UIState = 'idle' | 'parsing' | 'mapping' | 'confirm' | 'generating' | 'complete';
 
 @Component({
   selector: 'app-root',
   templateUrl: './app.component.html',
   changeDetection: ChangeDetectionStrategy.OnPush,
-  imports: [CommonModule],
+  imports: [CommonModule, ColumnMapperComponent, NoteRulesEditorComponent, CorrectionLegendComponent, StatusRulesEditorComponent, StyleThemeEditorComponent, CorrectionsTableComponent, ManualPlacementComponent],
 })
 export class AppComponent {
   // Fix: Explicitly type injected services to resolve type inference issue.
   private fileParserService: FileParserService = inject(FileParserService);
   // Fix: Explicitly type injected services to resolve type inference issue.
   private pdfService: PdfService = inject(PdfService);
+  private reportService: ReportService = inject(ReportService);
+  private columnProfileService: ColumnProfileService = inject(ColumnProfileService);
+  private pageOffsetService: PageOffsetService = inject(PageOffsetService);
+  private styleThemeService: StyleThemeService = inject(StyleThemeService);
 
   qcFile = signal<File | null>(null);
   scriptFile = signal<File | null>(null);
+  notesFontFile = signal<File | null>(null); // Optional font for the notes, ahead of the bundled one
   status = signal<Status | null>(null);
   generatedPdfBytes = signal<Uint8Array | null>(null);
   generatedPageCount = signal<number>(0);
+  pageMode = signal<PageMode>('offset');
   pageOffset = signal<number>(0);
+  // Piecewise offsets from detection; when set they take precedence over pageOffset
+  offsetRanges = signal<OffsetRange[] | null>(null);
+  offsetSuggestion = signal<OffsetSuggestion | null>(null);
+  detectingOffset = signal(false);
+  // Page labels of the script, read when label mode is chosen
+  pageLabels = signal<PageLabels | null>(null);
+  loadingPageLabels = signal(false);
+  pageMapping = computed<PageMapping>(() => ({
+    mode: this.pageMode(),
+    pageOffset: this.pageOffset(),
+    offsetRanges: this.offsetRanges(),
+    pageLabels: this.loadingPageLabels() ? undefined : this.pageLabels()?.labels ?? null,
+  }));
+  pageLabelPreview = computed(() => {
+    const labels = this.pageLabels()?.labels ?? [];
+    return labels.slice(0, 12).map((label, i) => `${i + 1}→${label ?? '?'}`).join(', ');
+  });
+  suggestionDiffers = computed(() => {
+    const suggestion = this.offsetSuggestion();
+    if (!suggestion || suggestion.ranges.length === 0) return false;
+    const current = this.offsetRanges();
+    if (!current) return suggestion.ranges.length > 1 || suggestion.ranges[0].offset !== this.pageOffset();
+    return JSON.stringify(current) !== JSON.stringify(suggestion.ranges);
+  });
   isAudibleProject = signal<boolean>(false);
+  markOutput = signal<MarkOutput>('drawn');
+  matchThreshold = signal<number>(0.8);
+  searchRadius = signal<number | null>(1); // Pages either side of the reported page; null for the whole script
+  readonly farPageDistance = FAR_PAGE_DISTANCE;
+
+  // Workbook sheets available in the QC file and the ones chosen for import
+  availableSheets = signal<string[]>([]);
+  selectedSheets = signal<string[]>([]);
+  groupBySheet = signal<boolean>(false);
 
   uiState = signal<UIState>('idle');
   parsedCorrections = signal<Correction[]>([]);
+  skippedRows = signal<SkippedRow[]>([]);
+  skippedRowsVisible = signal(false);
   instructionsVisible = signal(false);
+  noteRulesVisible = signal(false);
+  statusRulesVisible = signal(false);
+  styleThemeVisible = signal(false);
+
+  // Column mapping for QC reports whose headers aren't recognized
+  detectedHeader = signal<DetectedHeader | null>(null);
+  activeMapping = signal<ColumnProfile | null>(null);
+  mappingProfileForHeader = computed(() => {
+    const header = this.detectedHeader();
+    if (!header) return null;
+    const active = this.activeMapping();
+    if (active && active.signature === header.signature) return active;
+    return this.columnProfileService.findBySignature(header.signature) ?? null;
+  });
+
+  // Validation of the parsed report against the script, shown before generating
+  scriptPageCount = signal<number | null>(null);
+  blockOnErrors = signal<boolean>(true);
+  qcIssues = computed<QcIssue[]>(() =>
+    this.fileParserService.validateCorrections(this.parsedCorrections(), this.scriptPageCount(), this.pageMapping())
+  );
+  qcErrors = computed(() => this.qcIssues().filter(issue => issue.severity === 'error'));
+  qcWarnings = computed(() => this.qcIssues().filter(issue => issue.severity === 'warning'));
+  generationBlocked = computed(() => this.blockOnErrors() && this.qcErrors().length > 0);
+  errorCorrectionIndexes = computed(() => new Set(this.qcErrors().flatMap(issue => issue.correctionIndexes)));
+  focusedCorrectionIndex = signal<number | null>(null);
+  includedCorrections = computed(() => this.parsedCorrections().filter(c => !c.excluded));
+
+  // Placement report for the last generated pack, indexed against generatedCorrections.
+  placements = signal<PlacementResult[]>([]);
+  generatedCorrections = signal<Correction[]>([]);
+  placementsNeedingCheck = computed(() => this.placements().filter(p => this.reportService.needsManualCheck(p)));
+  // Placement whose other occurrences are listed, by correctionIndex
+  expandedPlacement = signal<number | null>(null);
+
+  // Correction being placed by hand on the rendered script, as an index into parsedCorrections
+  manualPlacementIndex = signal<number | null>(null);
+  manualPlacementCorrection = computed(() => {
+    const index = this.manualPlacementIndex();
+    return index === null || !this.scriptFile() ? null : this.parsedCorrections()[index] ?? null;
+  });
 
   toggleInstructions(): void {
     this.instructionsVisible.update(visible => !visible);
   }
 
+  toggleNoteRules(): void {
+    this.noteRulesVisible.update(visible => !visible);
+  }
+
+  toggleStatusRules(): void {
+    this.statusRulesVisible.update(visible => !visible);
+  }
+
+  toggleStyleTheme(): void {
+    this.styleThemeVisible.update(visible => !visible);
+  }
+
+  toggleSkippedRows(): void {
+    this.skippedRowsVisible.update(visible => !visible);
+  }
+
   onQcFileChange(event: Event): void {
     const input = event.target as HTMLInputElement;
     const file = input.files?.[0] ?? null;
     this.qcFile.set(file);
+    this.activeMapping.set(null);
+    this.resetToIdle();
+    this.loadSheets(file);
+  }
+
+  onSheetToggle(sheetName: string, event: Event): void {
+    const checked = (event.target as HTMLInputElement).checked;
+    // Keep the workbook's sheet order regardless of click order
+    const selected = new Set(this.selectedSheets());
+    if (checked) selected.add(sheetName); else selected.delete(sheetName);
+    this.selectedSheets.set(this.availableSheets().filter(name => selected.has(name)));
     this.resetToIdle();
   }
 
+  onGroupBySheetChange(event: Event): void {
+    this.groupBySheet.set((event.target as HTMLInputElement).checked);
+  }
+
+  private async loadSheets(file: File | null): Promise<void> {
+    this.availableSheets.set([]);
+    this.selectedSheets.set([]);
+    if (!file) return;
+
+    try {
+      const sheets = await this.fileParserService.listSheets(file);
+      if (this.qcFile() !== file) return; // A different file was chosen meanwhile
+      this.availableSheets.set(sheets);
+      this.selectedSheets.set(sheets.slice(0, 1));
+    } catch (error) {
+      console.error('Error listing workbook sheets:', error);
+    }
+  }
+
   onScriptFileChange(event: Event): void {
     const input = event.target as HTMLInputElement;
     const file = input.files?.[0] ?? null;
     this.scriptFile.set(file);
     this.resetToIdle();
+    this.loadScriptPageCount(file);
+    this.pageLabels.set(null);
+    if (this.pageMode() === 'label') this.loadPageLabels(file);
+  }
+
+  onNotesFontChange(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    this.notesFontFile.set(input.files?.[0] ?? null);
+  }
+
+  clearNotesFont(): void {
+    this.notesFontFile.set(null);
+    const notesFontInput = document.getElementById('notesFontInput') as HTMLInputElement;
+    if (notesFontInput) notesFontInput.value = '';
+  }
+
+  onPageModeChange(event: Event): void {
+    const mode = (event.target as HTMLSelectElement).value as PageMode;
+    this.pageMode.set(mode);
+    if (mode === 'label' && !this.pageLabels()) this.loadPageLabels(this.scriptFile());
+  }
+
+  private async loadPageLabels(file: File | null): Promise<void> {
+    if (!file) return;
+    this.loadingPageLabels.set(true);
+    try {
+      const labels = await this.pdfService.readPageLabels(await file.arrayBuffer());
+      if (this.scriptFile() !== file) return; // A different file was chosen meanwhile
+      this.pageLabels.set(labels);
+    } catch (error) {
+      console.error('Error reading page labels:', error);
+    } finally {
+      this.loadingPageLabels.set(false);
+    }
+  }
+
+  private async loadScriptPageCount(file: File | null): Promise<void> {
+    this.scriptPageCount.set(null);
+    if (!file) return;
+
+    try {
+      const pageCount = await this.pdfService.getPageCount(await file.arrayBuffer());
+      if (this.scriptFile() !== file) return; // A different file was chosen meanwhile
+      this.scriptPageCount.set(pageCount);
+    } catch (error) {
+      console.error('Error reading script page count:', error);
+    }
+  }
+
+  onBlockOnErrorsChange(event: Event): void {
+    this.blockOnErrors.set((event.target as HTMLInputElement).checked);
+  }
+
+  focusCorrection(index: number): void {
+    // Re-set so clicking the same issue twice scrolls back to it
+    this.focusedCorrectionIndex.set(null);
+    this.focusedCorrectionIndex.set(index);
+  }
+
+  onCorrectionsEdited(corrections: Correction[]): void {
+    if (corrections.length !== this.parsedCorrections().length) {
+      this.focusedCorrectionIndex.set(null);
+      this.manualPlacementIndex.set(null);
+    }
+    this.parsedCorrections.set(corrections);
   }
 
   onPageOffsetChange(event: Event): void {
     const input = event.target as HTMLInputElement;
     const value = input.valueAsNumber;
     this.pageOffset.set(isNaN(value) ? 0 : value);
+    this.offsetRanges.set(null);
+  }
+
+  pdfPageFor(correction: Correction): number | null {
+    return this.pageOffsetService.pdfPageFor(correction, this.pageMapping());
+  }
+
+  private async detectPageOffsets(): Promise<void> {
+    const scriptFile = this.scriptFile();
+    const corrections = this.parsedCorrections();
+    if (!scriptFile || corrections.length === 0) return;
+
+    this.detectingOffset.set(true);
+    this.offsetSuggestion.set(null);
+    try {
+      const pageTexts = await this.pdfService.extractPdfTextWithItems(await scriptFile.arrayBuffer());
+      if (this.scriptFile() !== scriptFile || this.uiState() !== 'confirm') return; // Moved on meanwhile
+      this.offsetSuggestion.set(this.pageOffsetService.suggestOffsets(this.parsedCorrections(), pageTexts));
+    } catch (error) {
+      console.error('Error detecting page offset:', error);
+    } finally {
+      this.detectingOffset.set(false);
+    }
+  }
+
+  applyOffsetSuggestion(): void {
+    const suggestion = this.offsetSuggestion();
+    if (!suggestion || suggestion.ranges.length === 0) return;
+    if (suggestion.ranges.length === 1) {
+      this.pageOffset.set(suggestion.ranges[0].offset);
+      this.offsetRanges.set(null);
+    } else {
+      this.offsetRanges.set(suggestion.ranges);
+    }
+  }
+
+  dismissOffsetSuggestion(): void {
+    this.offsetSuggestion.set(null);
+  }
+
+  clearOffsetRanges(): void {
+    this.offsetRanges.set(null);
+  }
+
+  onMatchThresholdChange(event: Event): void {
+    const value = (event.target as HTMLInputElement).valueAsNumber;
+    this.matchThreshold.set(isNaN(value) ? 0.8 : Math.min(100, Math.max(0, value)) / 100);
+  }
+
+  onSearchRadiusChange(event: Event): void {
+    const value = (event.target as HTMLSelectElement).value;
+    this.searchRadius.set(value === 'all' ? null : Number(value));
   }
 
   onAudibleChange(event: Event): void {
@@ -59,6 +315,11 @@ export class AppComponent {
     this.isAudibleProject.set(input.checked);
   }
 
+  onMarkOutputChange(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    this.markOutput.set(input.checked ? 'annotations' : 'drawn');
+  }
+
   async startParsing(): Promise<void> {
     const currentQcFile = this.qcFile();
     const isAudible = this.isAudibleProject();
@@ -72,22 +333,37 @@ export class AppComponent {
     this.status.set({ text: 'Parsing QC report...', type: 'info' });
 
     try {
-      const corrections = await this.fileParserService.parseQcFile(currentQcFile, isAudible);
+      const { corrections, skipped } = await this.fileParserService.parseQcFile(currentQcFile, isAudible, {
+        mapping: this.activeMapping() ?? undefined,
+        sheetNames: this.availableSheets().length > 0 ? this.selectedSheets() : undefined,
+      });
       this.parsedCorrections.set(corrections);
+      this.skippedRows.set(skipped);
+      this.focusedCorrectionIndex.set(null);
 
       if (corrections.length === 0) {
         this.status.set({
-          text: 'Parsing complete but 0 corrections were found. Please check your CSV column headers and ensure rows have "fix" or "pickup" in the status/comments.',
+          text: 'Parsing complete but 0 corrections were found. Please check the column headers in your report and the skipped rows below, and adjust the pickup status rules if needed.',
           type: 'warning'
         });
         this.uiState.set('complete');
         this.generatedPdfBytes.set(new Uint8Array());
         this.generatedPageCount.set(0);
       } else {
-        this.status.set({ text: `Found ${corrections.length} corrections. Please confirm to proceed.`, type: 'info' });
+        const skippedNote = skipped.length > 0 ? ` ${skipped.length} rows were skipped.` : '';
+        const errorCount = this.qcErrors().length;
+        const issueNote = errorCount > 0 ? ` ${errorCount} problems need fixing in the report.` : '';
+        this.status.set({ text: `Found ${corrections.length} corrections.${skippedNote}${issueNote} Please confirm to proceed.`, type: errorCount > 0 ? 'warning' : 'info' });
         this.uiState.set('confirm');
+        this.detectPageOffsets();
       }
     } catch (error) {
+      if (error instanceof ColumnMappingRequiredError) {
+        this.detectedHeader.set(error.detectedHeader);
+        this.status.set({ text: 'The report columns were not recognized. Map them below to continue.', type: 'warning' });
+        this.uiState.set('mapping');
+        return;
+      }
       console.error('Error parsing QC file:', error);
       const message = error instanceof Error ? error.message : 'An unknown error occurred.';
       this.status.set({ text: `Failed to parse QC file: ${message}`, type: 'error' });
@@ -95,15 +371,50 @@ export class AppComponent {
     }
   }
 
+  async openColumnMapping(): Promise<void> {
+    const currentQcFile = this.qcFile();
+    if (!currentQcFile) return;
+
+    try {
+      this.detectedHeader.set(await this.fileParserService.detectHeader(currentQcFile, this.selectedSheets()[0]));
+      this.status.set(null);
+      this.uiState.set('mapping');
+    } catch (error) {
+      console.error('Error reading QC file headers:', error);
+      const message = error instanceof Error ? error.message : 'An unknown error occurred.';
+      this.status.set({ text: `Failed to read QC file headers: ${message}`, type: 'error' });
+    }
+  }
+
+  async onMappingApplied(result: ColumnMappingResult): Promise<void> {
+    if (result.save) {
+      this.columnProfileService.save(result.profile);
+    }
+    this.activeMapping.set(result.profile);
+    this.detectedHeader.set(null);
+    await this.startParsing();
+  }
+
+  onMappingCancelled(): void {
+    this.detectedHeader.set(null);
+    this.resetToIdle();
+  }
+
   async generateConfirmedQCPack(): Promise<void> {
-    const corrections = this.parsedCorrections();
+    const corrections = this.includedCorrections();
     const currentScriptFile = this.scriptFile();
-    const pageOffset = this.pageOffset();
+    const pageMapping = this.pageMapping();
     const isAudible = this.isAudibleProject();
+    const groupBySheet = this.groupBySheet() && this.selectedSheets().length > 1;
 
     if (!currentScriptFile || corrections.length === 0) {
       this.status.set({ text: 'Cannot proceed. Script file or corrections are missing.', type: 'error' });
-      this.uiState.set('idle');
+      if (!currentScriptFile) this.uiState.set('idle');
+      return;
+    }
+
+    if (this.generationBlocked()) {
+      this.status.set({ text: 'Fix the errors in the QC report before generating, or turn off blocking.', type: 'error' });
       return;
     }
 
@@ -112,11 +423,33 @@ export class AppComponent {
 
     try {
       const scriptPdfBytes = await currentScriptFile.arrayBuffer();
-      const { pdfBytes, pageCount } = await this.pdfService.createQCPack(scriptPdfBytes, corrections, pageOffset, isAudible);
+      const notesFont = await this.notesFontFile()?.arrayBuffer() ?? null;
+      const { pdfBytes, pageCount, placements } = await this.pdfService.createQCPack(scriptPdfBytes, corrections, {
+        pageMapping,
+        isAudible,
+        groupBySheet,
+        matchThreshold: this.matchThreshold(),
+        searchRadius: this.searchRadius(),
+        markOutput: this.markOutput(),
+        theme: this.styleThemeService.themeFor(isAudible),
+        notesFont,
+      });
+
+      // Keep each pickup's match score on the correction so weak placements stay flagged while editing
+      const scored = new Map(corrections.map((c, i) => [c, { ...c, matchScore: placements.find(p => p.correctionIndex === i)?.score }]));
+      this.parsedCorrections.update(all => all.map(c => scored.get(c) ?? c));
 
       this.generatedPdfBytes.set(pdfBytes);
       this.generatedPageCount.set(pageCount);
-      this.status.set({ text: `QC Pack generated successfully with ${pageCount} pages! Ready to download.`, type: 'success' });
+      this.generatedCorrections.set(corrections.map(c => scored.get(c)!));
+      this.placements.set(placements);
+
+      const needsCheck = this.placementsNeedingCheck().length;
+      if (needsCheck > 0) {
+        this.status.set({ text: `QC Pack generated with ${pageCount} pages. ${needsCheck} of ${placements.length} pickups need a manual placement check.`, type: 'warning' });
+      } else {
+        this.status.set({ text: `QC Pack generated successfully with ${pageCount} pages! Ready to download.`, type: 'success' });
+      }
       this.uiState.set('complete');
 
     } catch (error) {
@@ -127,6 +460,57 @@ export class AppComponent {
     }
   }
 
+  openManualPlacement(index: number): void {
+    this.manualPlacementIndex.set(index);
+    setTimeout(() => document.querySelector('app-manual-placement')?.scrollIntoView({ behavior: 'smooth', block: 'start' }));
+  }
+
+  openManualPlacementForPlacement(placement: PlacementResult): void {
+    const index = this.parsedIndexFor(placement);
+    if (index !== -1) this.openManualPlacement(index);
+  }
+
+  // Placements index the generated list, which skips excluded corrections
+  private parsedIndexFor(placement: PlacementResult): number {
+    return this.parsedCorrections().indexOf(this.generatedCorrections()[placement.correctionIndex]);
+  }
+
+  toggleOccurrences(placement: PlacementResult): void {
+    this.expandedPlacement.update(current => current === placement.correctionIndex ? null : placement.correctionIndex);
+  }
+
+  /** Pins the pickup to one of the other places its phrase was found and rebuilds the pack. */
+  async chooseOccurrence(placement: PlacementResult, occurrence: PlacementOccurrence): Promise<void> {
+    const index = this.parsedIndexFor(placement);
+    if (index === -1) return;
+    this.expandedPlacement.set(null);
+    await this.setManualPlacement(index, occurrence.placement);
+  }
+
+  closeManualPlacement(): void {
+    this.manualPlacementIndex.set(null);
+  }
+
+  async onManualPlacementApplied(placement: ManualPlacement | null): Promise<void> {
+    const index = this.manualPlacementIndex();
+    if (index === null) return;
+    this.manualPlacementIndex.set(null);
+    await this.setManualPlacement(index, placement);
+  }
+
+  private async setManualPlacement(index: number, placement: ManualPlacement | null): Promise<void> {
+    this.parsedCorrections.update(corrections => corrections.map((c, i) => {
+      if (i !== index) return c;
+      const { manualPlacement, ...rest } = c;
+      return placement ? { ...rest, manualPlacement: placement } : rest;
+    }));
+
+    // Rebuild the pack so the new placement shows up straight away
+    if (this.uiState() === 'complete') {
+      await this.generateConfirmedQCPack();
+    }
+  }
+
   downloadGeneratedPack(): void {
     const pdfBytes = this.generatedPdfBytes();
     if (pdfBytes && pdfBytes.length > 0) {
@@ -147,25 +531,52 @@ export class AppComponent {
     }
   }
 
+  downloadPlacementReport(): void {
+    const csv = this.reportService.buildPlacementCsv(this.placements(), this.generatedCorrections());
+    const scriptFileName = this.scriptFile()?.name ?? 'script';
+    const downloadName = `${scriptFileName.replace(/\.pdf$/i, '')}_PlacementReport.csv`;
+    this.downloadFile(new TextEncoder().encode(csv), downloadName, 'text/csv');
+  }
+
   resetToIdle(): void {
     this.uiState.set('idle');
     this.status.set(null);
     this.generatedPdfBytes.set(null);
     this.generatedPageCount.set(0);
     this.parsedCorrections.set([]);
+    this.skippedRows.set([]);
+    this.skippedRowsVisible.set(false);
+    this.placements.set([]);
+    this.generatedCorrections.set([]);
+    this.focusedCorrectionIndex.set(null);
+    this.manualPlacementIndex.set(null);
+    this.offsetSuggestion.set(null);
   }
 
   reset(): void {
     this.qcFile.set(null);
     this.scriptFile.set(null);
+    this.clearNotesFont();
 
     const qcInput = document.getElementById('qcInput') as HTMLInputElement;
     const scriptInput = document.getElementById('scriptInput') as HTMLInputElement;
     if (qcInput) qcInput.value = '';
     if (scriptInput) scriptInput.value = '';
 
+    this.pageMode.set('offset');
     this.pageOffset.set(0);
+    this.offsetRanges.set(null);
+    this.pageLabels.set(null);
     this.isAudibleProject.set(false);
+    this.markOutput.set('drawn');
+    this.matchThreshold.set(0.8);
+    this.searchRadius.set(1);
+    this.activeMapping.set(null);
+    this.detectedHeader.set(null);
+    this.availableSheets.set([]);
+    this.selectedSheets.set([]);
+    this.groupBySheet.set(false);
+    this.scriptPageCount.set(null);
     this.resetToIdle();
   }
 
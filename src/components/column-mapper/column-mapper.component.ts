@@ -0,0 +1,129 @@
+import { Component, ChangeDetectionStrategy, computed, effect, inject, input, output, signal } from '@angular/core';
+import { ColumnProfile, DetectedHeader, MappableField } from '../../models';
+import { ColumnProfileService } from '../../services/column-profile.service';
+
+interface FieldOption {
+  field: MappableField;
+  label: string;
+  required: boolean;
+  hints: string[]; // Header fragments used to pre-select a column
+}
+
+const FIELD_OPTIONS: FieldOption[] = [
+  { field: 'Id', label: 'Pickup ID', required: false, hints: ['ID', 'PICKUP', '#'] },
+  { field: 'Page', label: 'Page', required: true, hints: ['PAGE', 'PG'] },
+  { field: 'ContextPhrase', label: 'Context / Script Text', required: true, hints: ['CONTEXT', 'TEXT', 'LINE', 'SCRIPT'] },
+  { field: 'Notes', label: 'Notes', required: false, hints: ['NOTE', 'PROBLEM', 'DESCRIPTION', 'ISSUE'] },
+  { field: 'Track', label: 'Track', required: false, hints: ['TRK', 'TRACK', 'CHAPTER', 'FILE'] },
+  { field: 'Timestamp', label: 'Timestamp', required: false, hints: ['TIME', 'TC'] },
+  { field: 'Status', label: 'Status / Comments', required: false, hints: ['STATUS', 'COMMENT', 'ACTION'] },
+];
+
+export interface ColumnMappingResult {
+  profile: ColumnProfile;
+  save: boolean;
+}
+
+@Component({
+  selector: 'app-column-mapper',
+  templateUrl: './column-mapper.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ColumnMapperComponent {
+  private columnProfileService: ColumnProfileService = inject(ColumnProfileService);
+
+  header = input.required<DetectedHeader>();
+  initialProfile = input<ColumnProfile | null>(null);
+
+  apply = output<ColumnMappingResult>();
+  cancel = output<void>();
+
+  readonly fields = FIELD_OPTIONS;
+  savedProfiles = this.columnProfileService.profiles;
+
+  columns = signal<Partial<Record<MappableField, string>>>({});
+  profileName = signal('');
+  saveProfile = signal(true);
+  // Saved profiles the mapping would replace, shown for confirmation before it is applied
+  replacing = signal<ColumnProfile[]>([]);
+  replacingNames = computed(() => this.replacing()
+    .map(p => `"${p.name}"${p.signature === this.header().signature ? ' (saved for these headers)' : ''}`)
+    .join(' and '));
+
+  headerOptions = computed(() => this.header().headers.filter(Boolean));
+  isComplete = computed(() => FIELD_OPTIONS.every(o => !o.required || !!this.columns()[o.field]));
+
+  constructor() {
+    effect(() => {
+      const profile = this.initialProfile();
+      const header = this.header();
+      if (profile) {
+        this.columns.set({ ...profile.columns });
+        this.profileName.set(profile.name);
+      } else {
+        this.columns.set(this.guessColumns(header.headers));
+        this.profileName.set('');
+      }
+    });
+  }
+
+  onColumnChange(field: MappableField, event: Event): void {
+    const value = (event.target as HTMLSelectElement).value;
+    this.columns.update(columns => ({ ...columns, [field]: value || undefined }));
+  }
+
+  onProfileNameChange(event: Event): void {
+    this.profileName.set((event.target as HTMLInputElement).value);
+    this.replacing.set([]);
+  }
+
+  onSaveProfileChange(event: Event): void {
+    this.saveProfile.set((event.target as HTMLInputElement).checked);
+    this.replacing.set([]);
+  }
+
+  deleteProfile(name: string): void {
+    this.columnProfileService.delete(name);
+  }
+
+  /** Applies the mapping; a profile that would replace others is only saved once that is confirmed. */
+  submit(confirmed = false): void {
+    if (!this.isComplete()) return;
+    const profile: ColumnProfile = {
+      name: this.profileName().trim() || this.unusedName(),
+      signature: this.header().signature,
+      columns: { ...this.columns() },
+    };
+    const replaced = this.saveProfile() ? this.columnProfileService.replacedBy(profile) : [];
+    if (replaced.length > 0 && !confirmed) {
+      this.replacing.set(replaced);
+      return;
+    }
+    this.replacing.set([]);
+    this.apply.emit({ profile, save: this.saveProfile() });
+  }
+
+  cancelReplace(): void {
+    this.replacing.set([]);
+  }
+
+  private unusedName(): string {
+    const names = new Set(this.savedProfiles().map(p => p.name));
+    let n = this.savedProfiles().length + 1;
+    while (names.has(`Profile ${n}`)) n++;
+    return `Profile ${n}`;
+  }
+
+  private guessColumns(headers: string[]): Partial<Record<MappableField, string>> {
+    const guessed: Partial<Record<MappableField, string>> = {};
+    const taken = new Set<string>();
+    for (const option of FIELD_OPTIONS) {
+      const match = headers.find(h => h && !taken.has(h) && option.hints.some(hint => h.toUpperCase().includes(hint)));
+      if (match) {
+        guessed[option.field] = match;
+        taken.add(match);
+      }
+    }
+    return guessed;
+  }
+}
@@ -0,0 +1,19 @@
+import { Component, ChangeDetectionStrategy, computed, input } from '@angular/core';
+import { CORRECTION_TYPES, Correction } from '../../models';
+
+@Component({
+  selector: 'app-correction-legend',
+  templateUrl: './correction-legend.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class CorrectionLegendComponent {
+  corrections = input<Correction[]>([]);
+
+  entries = computed(() => {
+    const counts = new Map<string, number>();
+    for (const c of this.corrections()) {
+      counts.set(c.correctionType, (counts.get(c.correctionType) ?? 0) + 1);
+    }
+    return CORRECTION_TYPES.map(info => ({ ...info, count: counts.get(info.type) ?? 0 }));
+  });
+}
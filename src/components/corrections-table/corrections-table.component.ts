@@ -0,0 +1,157 @@
+import { Component, ChangeDetectionStrategy, computed, effect, input, output, signal, untracked } from '@angular/core';
+import { PercentPipe } from '@angular/common';
+import { CORRECTION_TYPES, Correction, CorrectionType } from '../../models';
+
+type SortKey = 'row' | 'Id' | 'Page' | 'correctionType' | 'ContextPhrase';
+
+@Component({
+  selector: 'app-corrections-table',
+  templateUrl: './corrections-table.component.html',
+  imports: [PercentPipe],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class CorrectionsTableComponent {
+  corrections = input.required<Correction[]>();
+  focusedIndex = input<number | null>(null);
+  issueIndexes = input<Set<number>>(new Set());
+
+  correctionsChange = output<Correction[]>();
+  place = output<number>();
+
+  readonly correctionTypes = CORRECTION_TYPES;
+
+  filterText = signal('');
+  filterType = signal<CorrectionType | ''>('');
+  showExcluded = signal(true);
+  sortKey = signal<SortKey>('row');
+  sortAscending = signal(true);
+
+  excludedCount = computed(() => this.corrections().filter(c => c.excluded).length);
+
+  // Rows keep their index into corrections() so edits survive sorting and filtering
+  rows = computed(() => {
+    const text = this.filterText().trim().toLowerCase();
+    const type = this.filterType();
+    const showExcluded = this.showExcluded();
+    const rows = this.corrections()
+      .map((correction, index) => ({ correction, index }))
+      .filter(({ correction }) =>
+        (showExcluded || !correction.excluded) &&
+        (!type || correction.correctionType === type) &&
+        (!text || [correction.Id, correction.ContextPhrase, correction.Notes, correction.Sheet ?? '']
+          .some(value => value.toLowerCase().includes(text)))
+      );
+
+    const key = this.sortKey();
+    const direction = this.sortAscending() ? 1 : -1;
+    if (key !== 'row') {
+      rows.sort((a, b) => {
+        const left = a.correction[key];
+        const right = b.correction[key];
+        const compared = typeof left === 'number' && typeof right === 'number'
+          ? left - right
+          : String(left).localeCompare(String(right), undefined, { numeric: true, sensitivity: 'base' });
+        return compared * direction || a.index - b.index;
+      });
+    } else if (direction < 0) {
+      rows.reverse();
+    }
+    return rows;
+  });
+
+  constructor() {
+    // Clear filters that would hide a row picked from the validation list, then bring it into view
+    effect(() => {
+      const index = this.focusedIndex();
+      if (index === null) return;
+      untracked(() => {
+        if (!this.rows().some(row => row.index === index)) {
+          this.filterText.set('');
+          this.filterType.set('');
+          this.showExcluded.set(true);
+        }
+      });
+      setTimeout(() => document.getElementById(`correction-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }));
+    });
+  }
+
+  sortBy(key: SortKey): void {
+    if (this.sortKey() === key) {
+      this.sortAscending.update(ascending => !ascending);
+    } else {
+      this.sortKey.set(key);
+      this.sortAscending.set(true);
+    }
+  }
+
+  onFilterTextChange(event: Event): void {
+    this.filterText.set((event.target as HTMLInputElement).value);
+  }
+
+  onFilterTypeChange(event: Event): void {
+    this.filterType.set((event.target as HTMLSelectElement).value as CorrectionType | '');
+  }
+
+  onShowExcludedChange(event: Event): void {
+    this.showExcluded.set((event.target as HTMLInputElement).checked);
+  }
+
+  updateCorrection(index: number, changes: Partial<Correction>): void {
+    this.correctionsChange.emit(this.corrections().map((c, i) => i === index ? { ...c, ...changes, edited: true } : c));
+  }
+
+  // Pages are typed as cited, so "xii" keeps working in page label mode
+  onPageChange(index: number, event: Event): void {
+    const pageLabel = (event.target as HTMLInputElement).value.trim();
+    const pageMatch = pageLabel.match(/\d+/);
+    this.updateCorrection(index, { Page: pageMatch ? parseInt(pageMatch[0], 10) : 0, PageLabel: pageLabel });
+  }
+
+  onTextChange(index: number, key: 'Id' | 'ContextPhrase' | 'Notes', event: Event): void {
+    this.updateCorrection(index, { [key]: (event.target as HTMLInputElement).value });
+  }
+
+  onTypeChange(index: number, event: Event): void {
+    this.updateCorrection(index, { correctionType: (event.target as HTMLSelectElement).value as CorrectionType });
+  }
+
+  onOblongChange(index: number, event: Event): void {
+    const words = (event.target as HTMLInputElement).value.split(/\s+/).filter(Boolean);
+    this.updateCorrection(index, { wordsForOblong: words });
+  }
+
+  onExcludedChange(index: number, event: Event): void {
+    // Excluding isn't an edit of the pickup itself, so leave the edited flag alone
+    const excluded = !(event.target as HTMLInputElement).checked;
+    this.correctionsChange.emit(this.corrections().map((c, i) => i === index ? { ...c, excluded } : c));
+  }
+
+  removeCorrection(index: number): void {
+    this.correctionsChange.emit(this.corrections().filter((_, i) => i !== index));
+  }
+
+  addCorrection(): void {
+    const corrections = this.corrections();
+    const numericIds = corrections.map(c => parseInt(c.Id, 10)).filter(id => !isNaN(id));
+    const nextId = numericIds.length > 0 ? Math.max(...numericIds) + 1 : corrections.length + 1;
+    const lastPage = corrections.length > 0 ? corrections[corrections.length - 1].Page : 1;
+    this.correctionsChange.emit([
+      ...corrections,
+      {
+        Id: String(nextId),
+        Page: lastPage,
+        ContextPhrase: '',
+        Notes: '',
+        correctionType: 'misread',
+        wordsForOblong: [],
+        edited: true,
+      },
+    ]);
+    this.filterText.set('');
+    this.filterType.set('');
+    this.sortKey.set('row');
+    this.sortAscending.set(true);
+    const index = corrections.length;
+    setTimeout(() => document.getElementById(`correction-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }));
+  }
+}
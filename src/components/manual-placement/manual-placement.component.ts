@@ -0,0 +1,221 @@
+import { Component, ChangeDetectionStrategy, DestroyRef, ElementRef, computed, effect, inject, input, output, signal, untracked, viewChild } from '@angular/core';
+import { Correction, ManualPlacement, ManualSegment } from '../../models';
+import { PdfService, RenderedPage } from '../../services/pdf.service';
+import { LayoutService } from '../../services/layout.service';
+
+interface PageWord {
+  itemIndex: number;
+  startFrac: number;
+  endFrac: number;
+  text: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  rotation: number; // Degrees clockwise, about the word's bottom-left corner
+}
+
+const RENDER_SCALE = 1.5;
+
+@Component({
+  selector: 'app-manual-placement',
+  templateUrl: './manual-placement.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  host: { '(window:mouseup)': 'endDrag()' },
+})
+export class ManualPlacementComponent {
+  private pdfService: PdfService = inject(PdfService);
+  private layout: LayoutService = inject(LayoutService);
+
+  scriptFile = input.required<File>();
+  correction = input.required<Correction>();
+  initialPage = input.required<number>();
+
+  apply = output<ManualPlacement | null>();
+  cancel = output<void>();
+
+  canvas = viewChild.required<ElementRef<HTMLCanvasElement>>('pageCanvas');
+
+  pageNum = signal(1);
+  pageCount = signal(0);
+  loading = signal(false);
+  error = signal<string | null>(null);
+  rendered = signal<RenderedPage | null>(null);
+
+  // Selection as a range over words in reading order
+  anchor = signal<number | null>(null);
+  focus = signal<number | null>(null);
+  private dragging = false;
+  // The script is opened once per file and kept while pickups are placed on it
+  private documentFile: File | null = null;
+  private opening: Promise<any> | null = null;
+  private pdfDoc: any = null;
+  private openRequest = 0; // Only the latest open shows its page
+
+  words = computed<PageWord[]>(() => {
+    const page = this.rendered();
+    if (!page) return [];
+    const ordered = this.layout.readingOrder(page.items).flat();
+    const words: PageWord[] = [];
+    for (const item of ordered) {
+      const itemIndex = page.items.indexOf(item);
+      const box = page.boxes[itemIndex];
+      if (!item.str || !box) continue;
+      const cos = Math.cos(box.rotation * Math.PI / 180);
+      const sin = Math.sin(box.rotation * Math.PI / 180);
+      for (const match of item.str.matchAll(/\S+/g)) {
+        const startFrac = this.layout.fractionAt(item, match.index!);
+        const endFrac = this.layout.fractionAt(item, match.index! + match[0].length);
+        words.push({
+          itemIndex, startFrac, endFrac, text: match[0],
+          left: box.left + box.width * startFrac * cos,
+          top: box.top + box.width * startFrac * sin,
+          width: box.width * (endFrac - startFrac),
+          height: box.height,
+          rotation: box.rotation,
+        });
+      }
+    }
+    return words;
+  });
+
+  selectedRange = computed(() => {
+    const anchor = this.anchor();
+    const focus = this.focus();
+    if (anchor === null || focus === null) return null;
+    return { from: Math.min(anchor, focus), to: Math.max(anchor, focus) };
+  });
+
+  selectedText = computed(() => {
+    const range = this.selectedRange();
+    return range ? this.words().slice(range.from, range.to + 1).map(w => w.text).join(' ') : '';
+  });
+
+  constructor() {
+    effect(() => {
+      const file = this.scriptFile();
+      const page = this.initialPage();
+      this.correction(); // Reopen when a different pickup is chosen
+      untracked(() => this.open(file, page));
+    });
+    inject(DestroyRef).onDestroy(() => this.closeDocument());
+  }
+
+  private async open(file: File, pageNum: number): Promise<void> {
+    const request = ++this.openRequest;
+    this.loading.set(true);
+    this.error.set(null);
+    try {
+      if (file !== this.documentFile) {
+        this.closeDocument();
+        this.documentFile = file;
+        this.opening = file.arrayBuffer().then(bytes => this.pdfService.openDocument(bytes));
+      }
+      const pdfDoc = await this.opening;
+      if (request !== this.openRequest) return; // A newer pickup or script was chosen meanwhile
+      this.pdfDoc = pdfDoc;
+      this.pageCount.set(pdfDoc.numPages);
+      const existing = this.correction().manualPlacement;
+      await this.showPage(existing ? existing.pageNum : Math.min(Math.max(1, pageNum), pdfDoc.numPages));
+    } catch (error) {
+      if (request !== this.openRequest) return;
+      console.error('Error opening script for manual placement:', error);
+      this.error.set('The script could not be rendered.');
+      this.loading.set(false);
+    }
+  }
+
+  // Frees the pdf.js document, with its worker data and fonts, once it is no longer shown
+  private closeDocument(): void {
+    this.opening?.then(pdfDoc => pdfDoc.destroy(), () => {});
+    this.opening = null;
+    this.documentFile = null;
+    this.pdfDoc = null;
+  }
+
+  async showPage(pageNum: number): Promise<void> {
+    const pdfDoc = this.pdfDoc;
+    if (!pdfDoc || pageNum < 1 || pageNum > this.pageCount()) return;
+    this.loading.set(true);
+    this.anchor.set(null);
+    this.focus.set(null);
+    try {
+      this.pageNum.set(pageNum);
+      const rendered = await this.pdfService.renderPage(pdfDoc, pageNum, this.canvas().nativeElement, RENDER_SCALE);
+      if (pdfDoc !== this.pdfDoc) return; // The script was closed meanwhile
+      this.rendered.set(rendered);
+      this.restoreSelection();
+    } catch (error) {
+      if (pdfDoc !== this.pdfDoc) return;
+      console.error(`Error rendering page ${pageNum}:`, error);
+      this.error.set(`Page ${pageNum} could not be rendered.`);
+    } finally {
+      this.loading.set(false);
+    }
+  }
+
+  // Show the stored selection again when reopening its page
+  private restoreSelection(): void {
+    const existing = this.correction().manualPlacement;
+    if (!existing || existing.pageNum !== this.pageNum()) return;
+    const overlaps = (w: PageWord) => existing.segments.some(seg =>
+      seg.itemIndex === w.itemIndex && w.startFrac < seg.endFrac && w.endFrac > seg.startFrac);
+    const words = this.words();
+    const first = words.findIndex(overlaps);
+    if (first === -1) return;
+    let last = first;
+    words.forEach((w, i) => { if (overlaps(w)) last = i; });
+    this.anchor.set(first);
+    this.focus.set(last);
+  }
+
+  isSelected(index: number): boolean {
+    const range = this.selectedRange();
+    return !!range && index >= range.from && index <= range.to;
+  }
+
+  startDrag(index: number, event: MouseEvent): void {
+    event.preventDefault();
+    this.dragging = true;
+    if (event.shiftKey && this.anchor() !== null) {
+      this.focus.set(index);
+      return;
+    }
+    this.anchor.set(index);
+    this.focus.set(index);
+  }
+
+  extendDrag(index: number): void {
+    if (this.dragging) this.focus.set(index);
+  }
+
+  endDrag(): void {
+    this.dragging = false;
+  }
+
+  onPageInput(event: Event): void {
+    const value = (event.target as HTMLInputElement).valueAsNumber;
+    if (!isNaN(value)) this.showPage(Math.floor(value));
+  }
+
+  submit(): void {
+    const range = this.selectedRange();
+    if (!range) return;
+
+    // One segment per text item, merging the selected words inside it
+    const segments: ManualSegment[] = [];
+    for (const word of this.words().slice(range.from, range.to + 1)) {
+      const last = segments[segments.length - 1];
+      if (last && last.itemIndex === word.itemIndex) {
+        last.endFrac = Math.max(last.endFrac, word.endFrac);
+      } else {
+        segments.push({ itemIndex: word.itemIndex, startFrac: word.startFrac, endFrac: word.endFrac });
+      }
+    }
+    this.apply.emit({ pageNum: this.pageNum(), segments, text: this.selectedText() });
+  }
+
+  clearPlacement(): void {
+    this.apply.emit(null);
+  }
+}
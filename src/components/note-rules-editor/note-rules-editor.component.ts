@@ -0,0 +1,100 @@
+import { Component, ChangeDetectionStrategy, computed, inject, signal } from '@angular/core';
+import { AudiblePrefixMode, CORRECTION_TYPES, CorrectionType, NoteRule } from '../../models';
+import { NoteRuleService } from '../../services/note-rule.service';
+import { FileParserService } from '../../services/file-parser.service';
+
+@Component({
+  selector: 'app-note-rules-editor',
+  templateUrl: './note-rules-editor.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class NoteRulesEditorComponent {
+  private noteRuleService: NoteRuleService = inject(NoteRuleService);
+  private fileParserService: FileParserService = inject(FileParserService);
+
+  readonly correctionTypes = CORRECTION_TYPES;
+  readonly prefixModes: { value: AudiblePrefixMode, label: string }[] = [
+    { value: 'original-or-mr', label: 'MR (or MW if the note starts with MW:)' },
+    { value: 'mr', label: 'Always MR' },
+    { value: 'by-word-count', label: 'MW, or ML for more than 3 words in $1' },
+    { value: 'none', label: 'No prefix' },
+  ];
+
+  rules = this.noteRuleService.rules;
+  invalidRuleIds = computed(() => new Set(this.rules().filter(r => !this.noteRuleService.compile(r)).map(r => r.id)));
+
+  sampleNote = signal('');
+  sampleIsAudible = signal(false);
+  samplePreview = computed(() => {
+    const note = this.sampleNote().trim();
+    if (!note) return null;
+    // Depend on the rules so the preview refreshes while they are edited
+    this.rules();
+    return this.fileParserService.previewNote(note, this.sampleIsAudible());
+  });
+
+  updateRule(id: string, changes: Partial<NoteRule>): void {
+    this.noteRuleService.setRules(this.rules().map(r => r.id === id ? { ...r, ...changes } : r));
+  }
+
+  onTextChange(id: string, key: 'name' | 'pattern' | 'noteTemplate', event: Event): void {
+    this.updateRule(id, { [key]: (event.target as HTMLInputElement).value });
+  }
+
+  onEnabledChange(id: string, event: Event): void {
+    this.updateRule(id, { enabled: (event.target as HTMLInputElement).checked });
+  }
+
+  onTypeChange(id: string, event: Event): void {
+    this.updateRule(id, { correctionType: (event.target as HTMLSelectElement).value as CorrectionType });
+  }
+
+  onPrefixChange(id: string, event: Event): void {
+    this.updateRule(id, { audiblePrefix: (event.target as HTMLSelectElement).value as AudiblePrefixMode });
+  }
+
+  onOblongGroupChange(id: string, event: Event): void {
+    const value = (event.target as HTMLInputElement).valueAsNumber;
+    this.updateRule(id, { oblongGroup: isNaN(value) || value < 0 ? 0 : Math.floor(value) });
+  }
+
+  moveRule(index: number, direction: -1 | 1): void {
+    const rules = [...this.rules()];
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    this.noteRuleService.setRules(rules);
+  }
+
+  removeRule(id: string): void {
+    this.noteRuleService.setRules(this.rules().filter(r => r.id !== id));
+  }
+
+  addRule(): void {
+    this.noteRuleService.setRules([
+      ...this.rules(),
+      {
+        id: `custom-${Date.now()}`,
+        name: 'New rule',
+        pattern: '^should be\\s+(.+)$',
+        correctionType: 'misread',
+        oblongGroup: 1,
+        noteTemplate: 'should be read as "$1"',
+        audiblePrefix: 'original-or-mr',
+        enabled: true,
+      },
+    ]);
+  }
+
+  resetToDefaults(): void {
+    this.noteRuleService.resetToDefaults();
+  }
+
+  onSampleChange(event: Event): void {
+    this.sampleNote.set((event.target as HTMLInputElement).value);
+  }
+
+  onSampleAudibleChange(event: Event): void {
+    this.sampleIsAudible.set((event.target as HTMLInputElement).checked);
+  }
+}
@@ -0,0 +1,52 @@
+import { Component, ChangeDetectionStrategy, inject } from '@angular/core';
+import { StatusMatchMode, StatusRule } from '../../models';
+import { StatusRuleService } from '../../services/status-rule.service';
+
+@Component({
+  selector: 'app-status-rules-editor',
+  templateUrl: './status-rules-editor.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class StatusRulesEditorComponent {
+  private statusRuleService: StatusRuleService = inject(StatusRuleService);
+
+  readonly matchModes: StatusMatchMode[] = ['exact', 'contains', 'regex'];
+
+  rules = this.statusRuleService.rules;
+
+  updateRule(id: string, changes: Partial<StatusRule>): void {
+    this.statusRuleService.setRules(this.rules().map(r => r.id === id ? { ...r, ...changes } : r));
+  }
+
+  onTextChange(id: string, key: 'column' | 'pattern', event: Event): void {
+    const value = (event.target as HTMLInputElement).value;
+    this.updateRule(id, { [key]: key === 'column' && value.trim() === '' ? '*' : value });
+  }
+
+  onCheckboxChange(id: string, key: 'enabled' | 'negate', event: Event): void {
+    this.updateRule(id, { [key]: (event.target as HTMLInputElement).checked });
+  }
+
+  onMatchChange(id: string, event: Event): void {
+    this.updateRule(id, { match: (event.target as HTMLSelectElement).value as StatusMatchMode });
+  }
+
+  onActionChange(id: string, event: Event): void {
+    this.updateRule(id, { action: (event.target as HTMLSelectElement).value as StatusRule['action'] });
+  }
+
+  removeRule(id: string): void {
+    this.statusRuleService.setRules(this.rules().filter(r => r.id !== id));
+  }
+
+  addRule(): void {
+    this.statusRuleService.setRules([
+      ...this.rules(),
+      { id: `custom-${Date.now()}`, column: '*', match: 'contains', pattern: '', negate: false, action: 'include', enabled: true },
+    ]);
+  }
+
+  resetToDefaults(): void {
+    this.statusRuleService.resetToDefaults();
+  }
+}
@@ -0,0 +1,72 @@
+import { Component, ChangeDetectionStrategy, computed, inject, input } from '@angular/core';
+import { CORRECTION_TYPES, CorrectionType, MarkStyle, NotesStyle, StyleTheme, ThemeMarkKind } from '../../models';
+import { StyleThemeService } from '../../services/style-theme.service';
+
+// A row of the marks table: a correction type, or the words picked up
+type MarkTarget = CorrectionType | 'words';
+
+@Component({
+  selector: 'app-style-theme-editor',
+  templateUrl: './style-theme-editor.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class StyleThemeEditorComponent {
+  private styleThemeService: StyleThemeService = inject(StyleThemeService);
+
+  audible = input<boolean>(false);
+
+  readonly kinds: ThemeMarkKind[] = ['underline', 'highlight', 'oblong', 'strike', 'caret'];
+  readonly rows: { target: MarkTarget; label: string }[] = [
+    ...CORRECTION_TYPES.map(info => ({ target: info.type as MarkTarget, label: info.label })),
+    { target: 'words', label: 'Words picked up' },
+  ];
+
+  themes = this.styleThemeService.themes;
+  theme = computed(() => this.styleThemeService.themeFor(this.audible()));
+
+  styleOf(theme: StyleTheme, target: MarkTarget): MarkStyle {
+    return target === 'words' ? theme.words : theme.marks[target];
+  }
+
+  onThemeChange(event: Event): void {
+    this.styleThemeService.choose(this.audible(), (event.target as HTMLSelectElement).value);
+  }
+
+  saveAs(nameInput: HTMLInputElement): void {
+    const name = nameInput.value.trim();
+    if (!name) return;
+    const copy = this.styleThemeService.saveAs(this.theme(), name);
+    this.styleThemeService.choose(this.audible(), copy.id);
+    nameInput.value = '';
+  }
+
+  deleteTheme(): void {
+    this.styleThemeService.delete(this.theme().id);
+  }
+
+  onMarkChange(target: MarkTarget, key: keyof MarkStyle, event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const changes: Partial<MarkStyle> =
+      key === 'enabled' ? { enabled: input.checked } :
+      key === 'kind' ? { kind: input.value as ThemeMarkKind } :
+      key === 'color' ? { color: input.value } :
+      key === 'opacity' ? { opacity: this.clamp(input.valueAsNumber / 100, 0, 1, 1) } :
+      { [key]: this.clamp(input.valueAsNumber, 0, 20, 1) };
+
+    const theme = this.theme();
+    this.styleThemeService.update(target === 'words'
+      ? { ...theme, words: { ...theme.words, ...changes } }
+      : { ...theme, marks: { ...theme.marks, [target]: { ...theme.marks[target], ...changes } } });
+  }
+
+  onNotesChange(key: keyof NotesStyle, event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const value = key === 'fontSize' ? this.clamp(input.valueAsNumber, 6, 24, 10) : input.value;
+    const theme = this.theme();
+    this.styleThemeService.update({ ...theme, notes: { ...theme.notes, [key]: value } });
+  }
+
+  private clamp(value: number, min: number, max: number, fallback: number): number {
+    return isNaN(value) ? fallback : Math.min(max, Math.max(min, value));
+  }
+}
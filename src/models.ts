@@ -1,14 +1,104 @@
+export type CorrectionType =
+  | 'misread'
+  | 'missing'
+  | 'inserted'
+  | 'mispronunciation'
+  | 'transposition'
+  | 'noise'
+  | 'mouth-sound'
+  | 'pacing'
+  | 'character-voice';
+
+// How a correction type is marked on the page; shared by the PDF drawing code and the legend
+export type MarkKind = 'underline' | 'wavy' | 'dashed' | 'dotted' | 'double' | 'bracket' | 'double-bracket';
+
+// How marks and notes go into the pack: drawn into the page, or as annotations a PDF editor lists as comments
+export type MarkOutput = 'drawn' | 'annotations';
+
+// What a theme marks text with; underlines take the correction type's line style
+export type ThemeMarkKind = 'underline' | 'highlight' | 'oblong' | 'strike' | 'caret';
+
+export interface MarkStyle {
+  enabled: boolean;
+  kind: ThemeMarkKind;
+  color: string; // #rrggbb
+  opacity: number; // 0–1
+  thickness: number; // Line width in points; highlights have none
+  // Points between the text and the mark: below the baseline for underlines and carets, above and
+  // below for highlights, beyond the ends for oblongs. Strike-throughs go through the text regardless.
+  padding: number;
+}
+
+export interface NotesStyle {
+  fontSize: number;
+  textColor: string;
+  backgroundColor: string;
+  borderColor: string;
+}
+
+export interface StyleTheme {
+  id: string;
+  name: string;
+  builtIn?: boolean; // The presets can be copied but not changed
+  marks: Record<CorrectionType, MarkStyle>; // The marked text: the matched phrase, or the sentences round an Audible pickup
+  words: MarkStyle; // The words picked up within it
+  notes: NotesStyle;
+}
+
+export interface CorrectionTypeInfo {
+  type: CorrectionType;
+  label: string;
+  mark: MarkKind;
+}
+
+export const CORRECTION_TYPES: CorrectionTypeInfo[] = [
+  { type: 'misread', label: 'Misread', mark: 'underline' },
+  { type: 'missing', label: 'Missing', mark: 'underline' },
+  { type: 'inserted', label: 'Inserted', mark: 'underline' },
+  { type: 'mispronunciation', label: 'Mispronunciation', mark: 'wavy' },
+  { type: 'transposition', label: 'Transposition', mark: 'dashed' },
+  { type: 'noise', label: 'Noise / Click', mark: 'bracket' },
+  { type: 'mouth-sound', label: 'Mouth Sound', mark: 'dotted' },
+  { type: 'pacing', label: 'Pacing', mark: 'double' },
+  { type: 'character-voice', label: 'Character Voice', mark: 'double-bracket' },
+];
+
 export interface Correction {
   Id: string;
   Page: number;
+  PageLabel?: string; // The page cell as written, e.g. "xii", for matching printed page labels
   ContextPhrase: string; // This will be the SEARCHABLE context for finding the sentence
   Notes: string;
   Track?: string;
   Timestamp?: string;
+  Sheet?: string; // Workbook sheet the correction was imported from
 
   // New properties for richer annotations
-  correctionType: 'misread' | 'missing' | 'inserted';
+  correctionType: CorrectionType;
   wordsForOblong?: string[];
+
+  // Where the correction came from, for validation messages
+  sourceRow?: number; // 1-based row in the source table
+  noteRuleId?: string; // Note grammar rule that matched; undefined when none did
+
+  // Set from the corrections table in the confirm step
+  edited?: boolean; // Changed or added by hand, so its note is taken as written
+  excluded?: boolean; // Left out of the generated pack
+  manualPlacement?: ManualPlacement; // Words picked on the rendered page; used instead of searching
+  matchScore?: number; // Similarity of the context phrase to the text it was placed on, from the last generated pack
+}
+
+// Part of one pdf.js text item, as an index into that page's PageText.items
+export interface ManualSegment {
+  itemIndex: number;
+  startFrac: number; // 0–1 within the item's width
+  endFrac: number;
+}
+
+export interface ManualPlacement {
+  pageNum: number; // PDF page, offset already applied
+  segments: ManualSegment[];
+  text: string; // The selected words, for the placement report
 }
 
 export type Status = {
@@ -18,10 +108,17 @@ export type Status = {
 
 export interface PageTextItem {
   str: string;
-  x: number;
+  x: number; // Baseline origin
   y: number;
-  width: number;
+  width: number; // Along the baseline
   height: number;
+  angle?: number; // Baseline direction in radians; absent or 0 for ordinary horizontal text
+  fontName?: string; // The pdf.js font the text is drawn in; absent for OCR text
+  fontFamily?: string; // The generic family pdf.js reports for that font, for measuring on a canvas
+  // Where each character (UTF-16 unit) of str starts, as a fraction of width, from the font's glyph
+  // widths; one entry more than str has characters. Measured only on pages that get marks, and absent
+  // when the widths aren't known, as for OCR text.
+  charOffsets?: number[];
 }
 
 export interface PageText {
@@ -35,4 +132,126 @@ export interface BoundingBox {
   y: number;
   width: number;
   height: number;
-}
\ No newline at end of file
+}
+
+// Offset applied to a run of report pages; toPage is null for "to the end"
+export interface OffsetRange {
+  fromPage: number;
+  toPage: number | null;
+  offset: number;
+}
+
+export interface OffsetSuggestion {
+  ranges: OffsetRange[];
+  sampled: number; // Pickups whose context was looked up
+  located: number; // Pickups found on exactly one script page
+  agreeing: number; // Located pickups that fit the suggested ranges
+}
+
+// How report pages are turned into PDF pages: as-is, through the script's page labels, or plus an offset
+export type PageMode = 'physical' | 'label' | 'offset';
+
+export interface PageMapping {
+  mode: PageMode;
+  pageOffset: number;
+  offsetRanges?: OffsetRange[] | null; // Per-range offsets; report pages outside every range use pageOffset
+  pageLabels?: (string | null)[] | null; // Label of each PDF page, first page at index 0; null when the script has none, absent until read
+}
+
+export type PlacementStrategy = 'strict' | 'fuzzy' | 'approximate' | 'neighbor' | 'manual' | 'unplaced';
+
+export type PlacementConfidence = 'high' | 'medium' | 'low' | 'none';
+
+// Placements at least this many pages from the reported page are flagged as a jump
+export const FAR_PAGE_DISTANCE = 2;
+
+export interface PlacementResult {
+  correctionIndex: number; // Index into the corrections passed to createQCPack
+  correctionId: string;
+  requestedPage: number | null; // PDF page the report page maps to; null when it maps to none
+  placedPage: number | null; // null when the page does not exist in the script
+  strategy: PlacementStrategy;
+  confidence: PlacementConfidence;
+  score: number; // 0–1 similarity of the matched text; for unplaced pickups, the best score that fell short
+  matchedText: string;
+  pageDistance?: number; // Pages between the requested and the placed page; only for pickups placed by searching
+  occurrences?: PlacementOccurrence[]; // Every place the phrase was found, best first; only when there was more than one
+  ambiguous?: boolean; // The best occurrences couldn't be told apart, so the first on the page was taken
+}
+
+// Another place a pickup's context phrase turns up, offered so the right one can be picked
+export interface PlacementOccurrence {
+  pageNum: number;
+  snippet: string; // The occurrence in [brackets] with a little text either side
+  placement: ManualPlacement; // Pins the pickup here when chosen
+}
+
+export type MappableField = 'Id' | 'Page' | 'ContextPhrase' | 'Notes' | 'Track' | 'Timestamp' | 'Status';
+
+export interface ColumnProfile {
+  name: string;
+  signature: string; // Normalized header row the profile was created from
+  columns: Partial<Record<MappableField, string>>; // Correction field -> spreadsheet header text
+}
+
+export interface DetectedHeader {
+  rowIndex: number;
+  headers: string[];
+  signature: string;
+  sheetName?: string;
+}
+
+export type AudiblePrefixMode = 'original-or-mr' | 'mr' | 'by-word-count' | 'none';
+
+export interface NoteRule {
+  id: string;
+  name: string;
+  pattern: string; // Regular expression source, matched case-insensitively against the note
+  correctionType: CorrectionType;
+  oblongGroup: number; // Capture group holding the words to encircle; 0 for none
+  noteTemplate: string; // $1, $2... are replaced with the trimmed, unquoted captures; $0 is the whole note
+  audiblePrefix: AudiblePrefixMode;
+  enabled: boolean;
+}
+
+export type StatusMatchMode = 'exact' | 'contains' | 'regex';
+
+export interface StatusRule {
+  id: string;
+  column: string; // Header text, or '*' for the report format's status cells
+  match: StatusMatchMode;
+  pattern: string;
+  negate: boolean;
+  action: 'include' | 'exclude';
+  enabled: boolean;
+}
+
+export interface SkippedRow {
+  sheet?: string;
+  rowNumber: number; // 1-based row in the source table
+  reason: string;
+  preview: string;
+}
+
+export interface QcParseResult {
+  corrections: Correction[];
+  skipped: SkippedRow[];
+}
+
+export type QcIssueCode =
+  | 'duplicate-id'
+  | 'invalid-page'
+  | 'page-out-of-range'
+  | 'no-page-labels'
+  | 'unknown-page-label'
+  | 'empty-context'
+  | 'unknown-note-grammar'
+  | 'bad-timestamp'
+  | 'duplicate-context';
+
+export interface QcIssue {
+  severity: 'error' | 'warning';
+  code: QcIssueCode;
+  message: string;
+  correctionIndexes: number[]; // Offending corrections, indexed into the validated list
+}
@@ -0,0 +1,263 @@
+import { Injectable } from '@angular/core';
+import { MarkKind, MarkStyle } from '../models';
+import { colorComponents } from './style-theme.service';
+
+declare var PDFLib: any;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// A marked stretch of one line: top left, top right, bottom left, bottom right, the order viewers read QuadPoints in
+export type Quad = [Point, Point, Point, Point];
+
+export interface Ellipse {
+  center: Point;
+  xScale: number; // Half the width along the baseline
+  yScale: number;
+  angle: number; // Baseline direction in radians
+}
+
+// What the comments pane shows for an annotation
+export interface CommentDetails {
+  author: string;
+  subject: string;
+  contents: string;
+}
+
+type Color = [number, number, number];
+
+const PRINT_FLAG = 4; // Annotation flag: printed with the page
+const NOTE_ICON_SIZE = 20;
+const POPUP_WIDTH = 220;
+const POPUP_HEIGHT = 110;
+const NOTE_COLOR: Color = [1, 0.82, 0];
+const KAPPA = 0.5523; // Control point distance of a Bézier quarter ellipse
+
+/**
+ * Writes marks and notes as annotation objects rather than page content, so a PDF editor lists them
+ * as comments that can be replied to and ticked off. Marks are grouped under their note (IRT with
+ * RT /Group), making each pickup one comment. Every annotation carries its own appearance stream,
+ * drawn the way the flattened marks are, for viewers that don't draw the subtype themselves.
+ */
+@Injectable({ providedIn: 'root' })
+export class AnnotationService {
+  private serial = 0;
+
+  /** Sticky note with a closed popup, its icon's top left corner at `at`. Returns its reference, for marks to be grouped under. */
+  addNote(page: any, at: Point, details: CommentDetails): any {
+    const { context } = page.doc;
+    const { width, height } = page.getSize();
+    const noteRef = context.nextRef();
+    const popupRef = context.nextRef();
+    const popupX = Math.min(at.x + NOTE_ICON_SIZE, width - POPUP_WIDTH);
+    const popupY = Math.max(at.y - POPUP_HEIGHT, 0);
+
+    context.assign(noteRef, context.obj({
+      ...this.common(page, 'Text', [at.x, at.y - NOTE_ICON_SIZE, at.x + NOTE_ICON_SIZE, at.y], NOTE_COLOR, details),
+      Name: 'Comment',
+      Open: false,
+      Popup: popupRef,
+    }));
+    context.assign(popupRef, context.obj({
+      Type: 'Annot',
+      Subtype: 'Popup',
+      Rect: [popupX, popupY, popupX + POPUP_WIDTH, Math.min(popupY + POPUP_HEIGHT, height)],
+      Parent: noteRef,
+      Open: false,
+      F: PRINT_FLAG,
+    }));
+    page.node.addAnnot(noteRef);
+    page.node.addAnnot(popupRef);
+    return noteRef;
+  }
+
+  /**
+   * Highlight, StrikeOut, Underline or Squiggly over lines of text, by the mark: wavy underlines are
+   * Squiggly, the other line styles Underline, drawn dashed, dotted or doubled in the appearance.
+   */
+  addTextMarkup(page: any, quads: Quad[], kind: 'underline' | 'highlight' | 'strike', pattern: MarkKind, style: MarkStyle, note: any, details: CommentDetails): void {
+    if (quads.length === 0) return;
+    const subtype = kind === 'highlight' ? 'Highlight' : kind === 'strike' ? 'StrikeOut' : pattern === 'wavy' ? 'Squiggly' : 'Underline';
+    const color = colorComponents(style.color);
+    const rect = this.bounds(quads.flat(), 3);
+
+    let content: string;
+    if (kind === 'highlight') {
+      content = `${this.rgb(color, 'rg')}\n` + quads.map(([tl, tr, bl, br]) =>
+        `${this.pt(tl)} m ${this.pt(tr)} l ${this.pt(br)} l ${this.pt(bl)} l h f`).join('\n');
+    } else if (kind === 'strike') {
+      content = `${this.rgb(color, 'RG')}\n` + quads.map(quad => this.lineContent(quad, 'underline', style.thickness, 0.3)).join('\n');
+    } else {
+      content = `${this.rgb(color, 'RG')}\n` + quads.map(quad => this.lineContent(quad, pattern, style.thickness, 0)).join('\n');
+    }
+
+    this.add(page, {
+      ...this.common(page, subtype, rect, style, details),
+      ...this.grouping(note),
+      QuadPoints: quads.flatMap(quad => quad.flatMap(p => [p.x, p.y])),
+      AP: { N: this.appearance(page, rect, content, style, kind === 'highlight') },
+    });
+  }
+
+  /** Circle round words, for the oblong. The annotation's own rectangle can't turn, so rotated oblongs rely on the appearance. */
+  addCircle(page: any, ellipse: Ellipse, style: MarkStyle, note: any, details: CommentDetails): void {
+    const { center, xScale, yScale, angle } = ellipse;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const halfWidth = Math.hypot(xScale * cos, yScale * sin);
+    const halfHeight = Math.hypot(xScale * sin, yScale * cos);
+    const margin = style.thickness / 2 + 0.5;
+    const rect = [center.x - halfWidth - margin, center.y - halfHeight - margin, center.x + halfWidth + margin, center.y + halfHeight + margin];
+
+    const [a, b] = [xScale, yScale];
+    const [ka, kb] = [a * KAPPA, b * KAPPA];
+    const n = (v: number) => v.toFixed(2);
+    const content = [
+      `q ${style.thickness} w ${this.rgb(colorComponents(style.color), 'RG')}`,
+      `${n(cos)} ${n(sin)} ${n(-sin)} ${n(cos)} ${n(center.x)} ${n(center.y)} cm`,
+      `${n(a)} 0 m`,
+      `${n(a)} ${n(kb)} ${n(ka)} ${n(b)} 0 ${n(b)} c`,
+      `${n(-ka)} ${n(b)} ${n(-a)} ${n(kb)} ${n(-a)} 0 c`,
+      `${n(-a)} ${n(-kb)} ${n(-ka)} ${n(-b)} 0 ${n(-b)} c`,
+      `${n(ka)} ${n(-b)} ${n(a)} ${n(-kb)} ${n(a)} 0 c`,
+      'S Q',
+    ].join('\n');
+
+    this.add(page, {
+      ...this.common(page, 'Circle', rect, style, details),
+      ...this.grouping(note),
+      BS: { W: style.thickness },
+      AP: { N: this.appearance(page, rect, content, style) },
+    });
+  }
+
+  /** Open polyline, for margin brackets. */
+  addPolyLine(page: any, points: Point[], style: MarkStyle, note: any, details: CommentDetails): void {
+    if (points.length < 2) return;
+    const rect = this.bounds(points, style.thickness / 2 + 0.5);
+    this.add(page, {
+      ...this.common(page, 'PolyLine', rect, style, details),
+      ...this.grouping(note),
+      Vertices: points.flatMap(p => [p.x, p.y]),
+      BS: { W: style.thickness },
+      AP: { N: this.appearance(page, rect, this.pathContent(points, style), style) },
+    });
+  }
+
+  /** Caret under the place words go in: left foot, point, right foot. */
+  addCaret(page: any, points: Point[], style: MarkStyle, note: any, details: CommentDetails): void {
+    const rect = this.bounds(points, style.thickness / 2 + 0.5);
+    this.add(page, {
+      ...this.common(page, 'Caret', rect, style, details),
+      ...this.grouping(note),
+      Sy: 'None',
+      AP: { N: this.appearance(page, rect, this.pathContent(points, style), style) },
+    });
+  }
+
+  /** Invisible link over `rect` that jumps to `at` on the target page. */
+  addLink(page: any, rect: number[], target: any, at: Point): void {
+    this.add(page, {
+      Type: 'Annot',
+      Subtype: 'Link',
+      Rect: rect,
+      Border: [0, 0, 0],
+      F: PRINT_FLAG,
+      Dest: [target.ref, 'XYZ', at.x, at.y, null],
+    });
+  }
+
+  // A line along a quad, `rise` of the way up it (0 for underlines), styled like the flattened marks
+  private lineContent([tl, , bl, br]: Quad, pattern: MarkKind, thickness: number, rise: number): string {
+    const length = Math.hypot(br.x - bl.x, br.y - bl.y) || 1;
+    const along = { x: (br.x - bl.x) / length, y: (br.y - bl.y) / length };
+    const height = Math.hypot(tl.x - bl.x, tl.y - bl.y) || 1;
+    const up = { x: (tl.x - bl.x) / height, y: (tl.y - bl.y) / height };
+    const at = (u: number, v: number) => this.pt({ x: bl.x + along.x * u + up.x * v, y: bl.y + along.y * u + up.y * v });
+    const line = (v: number) => `${at(0, v)} m ${at(length, v)} l S`;
+    const base = height * rise;
+
+    switch (pattern) {
+      case 'wavy': {
+        const points: string[] = [];
+        for (let u = 0, crest = true; u < length; u += 2, crest = !crest) {
+          points.push(`${at(u, base + (crest ? -1.2 : 1.2))} ${points.length === 0 ? 'm' : 'l'}`);
+        }
+        points.push(`${at(length, base)} l`);
+        return `${0.8 * thickness} w ${points.join(' ')} S`;
+      }
+      case 'dashed':
+        return `${thickness} w [3 2] 0 d ${line(base)} [] 0 d`;
+      case 'dotted':
+        return `${thickness} w [1 1.5] 0 d ${line(base)} [] 0 d`;
+      case 'double':
+        return `${0.7 * thickness} w ${line(base)} ${line(base - 1.8)}`;
+      default:
+        return `${thickness} w ${line(base)}`;
+    }
+  }
+
+  private pathContent(points: Point[], style: MarkStyle): string {
+    return `${style.thickness} w ${this.rgb(colorComponents(style.color), 'RG')}\n${this.pt(points[0])} m ` +
+      points.slice(1).map(p => `${this.pt(p)} l`).join(' ') + ' S';
+  }
+
+  private common(page: any, subtype: string, rect: number[], style: MarkStyle | Color, details: CommentDetails): object {
+    const { PDFHexString, PDFString } = PDFLib;
+    const [color, opacity] = Array.isArray(style) ? [style, 1] : [colorComponents(style.color), style.opacity];
+    return {
+      Type: 'Annot',
+      Subtype: subtype,
+      Rect: rect,
+      C: color,
+      CA: opacity,
+      F: PRINT_FLAG,
+      P: page.ref,
+      NM: PDFHexString.fromText(`qc-${Date.now().toString(36)}-${++this.serial}`),
+      M: PDFString.fromDate(new Date()),
+      T: PDFHexString.fromText(details.author),
+      Subj: PDFHexString.fromText(details.subject),
+      Contents: PDFHexString.fromText(details.contents),
+    };
+  }
+
+  // Marks belong to their note: the comments pane shows the group as one comment
+  private grouping(note: any): object {
+    return note ? { IRT: note, RT: 'Group' } : {};
+  }
+
+  private add(page: any, dict: object): void {
+    const { context } = page.doc;
+    page.node.addAnnot(context.register(context.obj(dict)));
+  }
+
+  // A form drawn in page coordinates: with the bounding box equal to the annotation's rectangle, nothing is scaled or moved.
+  // Highlights multiply, so the text shows through them as it would through a highlighter.
+  private appearance(page: any, rect: number[], content: string, style: MarkStyle, multiply = false): any {
+    const { context } = page.doc;
+    const state = { Type: 'ExtGState', ca: style.opacity, CA: style.opacity, ...(multiply ? { BM: 'Multiply' } : {}) };
+    const stream = context.stream(`/GS0 gs\n${content}`, {
+      Type: 'XObject',
+      Subtype: 'Form',
+      BBox: rect,
+      Resources: { ExtGState: { GS0: state } },
+    });
+    return context.register(stream);
+  }
+
+  private bounds(points: Point[], padding: number): number[] {
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    return [Math.min(...xs) - padding, Math.min(...ys) - padding, Math.max(...xs) + padding, Math.max(...ys) + padding];
+  }
+
+  private pt(p: Point): string {
+    return `${p.x.toFixed(2)} ${p.y.toFixed(2)}`;
+  }
+
+  private rgb(color: Color, operator: 'rg' | 'RG'): string {
+    return `${color.join(' ')} ${operator}`;
+  }
+}
@@ -0,0 +1,50 @@
+import { Injectable, signal } from '@angular/core';
+import { ColumnProfile } from '../models';
+
+const STORAGE_KEY = 'qcPackGenerator.columnProfiles';
+
+@Injectable({ providedIn: 'root' })
+export class ColumnProfileService {
+  readonly profiles = signal<ColumnProfile[]>(this.load());
+
+  findBySignature(signature: string): ColumnProfile | undefined {
+    return this.profiles().find(p => p.signature === signature);
+  }
+
+  /** Other saved profiles that saving this one would replace. */
+  replacedBy(profile: ColumnProfile): ColumnProfile[] {
+    return this.profiles().filter(p =>
+      (p.name === profile.name || p.signature === profile.signature) && !(p.name === profile.name && p.signature === profile.signature));
+  }
+
+  save(profile: ColumnProfile): void {
+    // A header signature can only have one profile, so saving replaces by name or signature.
+    const others = this.profiles().filter(p => p.name !== profile.name && p.signature !== profile.signature);
+    this.profiles.set([...others, profile]);
+    this.persist();
+  }
+
+  delete(name: string): void {
+    this.profiles.update(profiles => profiles.filter(p => p.name !== name));
+    this.persist();
+  }
+
+  private load(): ColumnProfile[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.warn('Could not read saved column profiles:', error);
+      return [];
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.profiles()));
+    } catch (error) {
+      console.warn('Could not save column profiles:', error);
+    }
+  }
+}
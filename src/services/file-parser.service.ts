@@ -1,28 +1,240 @@
-import { Injectable } from '@angular/core';
-import { Correction } from '../models';
+import { Injectable, inject } from '@angular/core';
+import { ColumnProfile, Correction, CorrectionType, DetectedHeader, MappableField, NoteRule, PageMapping, PageTextItem, QcIssue, QcParseResult, SkippedRow } from '../models';
+import { ColumnProfileService } from './column-profile.service';
+import { NoteRuleService } from './note-rule.service';
+import { StatusRuleService } from './status-rule.service';
+import { PdfService } from './pdf.service';
+import { PageOffsetService } from './page-offset.service';
+import { normalizeForSearch } from '../text-normalization';
 
 declare var Papa: any;
 declare var XLSX: any;
 
+export interface QcParseOptions {
+  mapping?: ColumnProfile; // Explicit mapping chosen in the UI; applied when its signature matches
+  sheetNames?: string[]; // Workbook sheets to import; defaults to the first sheet
+}
+
+interface SheetRows {
+  name: string | null; // null for single-table formats such as CSV
+  rows: any[][];
+}
+
+const WORKBOOK_EXTENSIONS = ['xlsx', 'ods'];
+const SUPPORTED_EXTENSIONS = ['csv', 'tsv', 'tab', 'xlsx', 'ods', 'json', 'pdf'];
+
+export class ColumnMappingRequiredError extends Error {
+  constructor(public readonly detectedHeader: DetectedHeader) {
+    super('The QC report columns were not recognized. Please map them to correction fields.');
+    this.name = 'ColumnMappingRequiredError';
+  }
+}
+
 @Injectable({ providedIn: 'root' })
 export class FileParserService {
+  private columnProfileService: ColumnProfileService = inject(ColumnProfileService);
+  private pdfService: PdfService = inject(PdfService);
+  private noteRuleService: NoteRuleService = inject(NoteRuleService);
+  private statusRuleService: StatusRuleService = inject(StatusRuleService);
+  private pageOffsetService: PageOffsetService = inject(PageOffsetService);
+
+  async parseQcFile(file: File, isAudible: boolean, options: QcParseOptions = {}): Promise<QcParseResult> {
+    const sheets = await this.readSheets(file, options.sheetNames);
+    const corrections: Correction[] = [];
+    const skipped: SkippedRow[] = [];
+
+    for (const sheet of sheets) {
+      let sheetResult: QcParseResult;
+      try {
+        sheetResult = this.parseRows(sheet.rows, isAudible, options, sheet.name);
+      } catch (error) {
+        if (sheets.length > 1 && !(error instanceof ColumnMappingRequiredError) && error instanceof Error) {
+          throw new Error(`Sheet "${sheet.name}": ${error.message}`);
+        }
+        throw error;
+      }
+      corrections.push(...sheetResult.corrections.map(c => sheet.name ? { ...c, Sheet: sheet.name } : c));
+      skipped.push(...sheetResult.skipped.map(r => sheet.name ? { ...r, sheet: sheet.name } : r));
+    }
+    return { corrections, skipped };
+  }
+
+  /**
+   * Lint pass over parsed corrections. Errors are problems that will misplace or drop a pickup;
+   * warnings are worth a look but won't break the pack. Excluded corrections are not checked,
+   * but indexes always refer to the full list.
+   */
+  validateCorrections(corrections: Correction[], scriptPageCount: number | null, pageMapping: PageMapping): QcIssue[] {
+    const issues: QcIssue[] = [];
+    const label = (i: number) => {
+      const c = corrections[i];
+      const where = [c.Sheet, c.sourceRow ? `row ${c.sourceRow}` : ''].filter(Boolean).join(' ');
+      return where ? `Pickup #${c.Id} (${where})` : `Pickup #${c.Id}`;
+    };
+
+    const byId = new Map<string, number[]>();
+    corrections.forEach((c, i) => {
+      if (c.excluded) return;
+      const key = `${c.Sheet ?? ''}\u0000${c.Id.trim()}`;
+      if (!byId.has(key)) byId.set(key, []);
+      byId.get(key)!.push(i);
+    });
+    for (const indexes of byId.values()) {
+      if (indexes.length > 1) {
+        issues.push({
+          severity: 'error',
+          code: 'duplicate-id',
+          message: `Pickup ID #${corrections[indexes[0]].Id} is used ${indexes.length} times.`,
+          correctionIndexes: indexes,
+        });
+      }
+    }
+
+    // Without labels every pickup would map to no page and be left out of the pack
+    if (pageMapping.mode === 'label' && scriptPageCount !== null && pageMapping.pageLabels === null) {
+      issues.push({
+        severity: 'error',
+        code: 'no-page-labels',
+        message: "The script has no page labels or printed page numbers, so no pickup can be placed by them. Choose another way of reading the report's page numbers.",
+        correctionIndexes: corrections.flatMap((c, i) => c.excluded ? [] : [i]),
+      });
+    }
+
+    corrections.forEach((c, i) => {
+      if (c.excluded) return;
+      const pdfPage = this.pageOffsetService.pdfPageFor(c, pageMapping);
+      if (pageMapping.mode === 'label') {
+        // Labels like "xii" aren't numbers, so only check that the script has the label
+        if (pageMapping.pageLabels && pdfPage === null) {
+          issues.push({
+            severity: 'error',
+            code: 'unknown-page-label',
+            message: `${label(i)} cites page "${c.PageLabel || c.Page}", which isn't a page label in the script.`,
+            correctionIndexes: [i],
+          });
+        }
+      } else if (!Number.isFinite(c.Page) || c.Page <= 0) {
+        issues.push({ severity: 'error', code: 'invalid-page', message: `${label(i)} has no usable page number.`, correctionIndexes: [i] });
+      } else if (scriptPageCount !== null && pdfPage !== null && pdfPage > scriptPageCount) {
+        issues.push({
+          severity: 'error',
+          code: 'page-out-of-range',
+          message: `${label(i)} is on page ${pdfPage}, but the script only has ${scriptPageCount} pages.`,
+          correctionIndexes: [i],
+        });
+      }
+
+      if (!c.ContextPhrase.trim()) {
+        issues.push({ severity: 'error', code: 'empty-context', message: `${label(i)} has no context phrase.`, correctionIndexes: [i] });
+      }
+
+      if (c.Notes.trim() && !c.noteRuleId && !c.edited) {
+        issues.push({
+          severity: 'warning',
+          code: 'unknown-note-grammar',
+          message: `${label(i)}: note "${c.Notes}" matched no note grammar rule, so it is kept as written.`,
+          correctionIndexes: [i],
+        });
+      }
+
+      if (c.Timestamp && c.Timestamp.trim() && !/^\d{1,2}(:\d{1,2}){1,2}([.,]\d+)?$/.test(c.Timestamp.trim())) {
+        issues.push({
+          severity: 'warning',
+          code: 'bad-timestamp',
+          message: `${label(i)} has a timestamp that can't be read: "${c.Timestamp}".`,
+          correctionIndexes: [i],
+        });
+      }
+    });
+
+    // Keyed on the script page the pickup maps to, as different report pages ("xii", "xiv") can share a number
+    const byPageContext = new Map<string, { page: string; indexes: number[] }>();
+    corrections.forEach((c, i) => {
+      const context = normalizeForSearch(c.ContextPhrase);
+      if (c.excluded || !context) return;
+      const pdfPage = this.pageOffsetService.pdfPageFor(c, pageMapping);
+      const page = Number.isFinite(pdfPage) ? `script page ${pdfPage}` : `page "${c.PageLabel || c.Page}"`;
+      const key = `${page}\u0000${context}`;
+      if (!byPageContext.has(key)) byPageContext.set(key, { page, indexes: [] });
+      byPageContext.get(key)!.indexes.push(i);
+    });
+    for (const { page, indexes } of byPageContext.values()) {
+      if (indexes.length > 1) {
+        issues.push({
+          severity: 'warning',
+          code: 'duplicate-context',
+          message: `${indexes.map(label).join(', ')} share the same context on ${page}.`,
+          correctionIndexes: indexes,
+        });
+      }
+    }
+
+    return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+  }
+
+  async detectHeader(file: File, sheetName?: string): Promise<DetectedHeader> {
+    const [sheet] = await this.readSheets(file, sheetName ? [sheetName] : undefined);
+    return this.detectHeaderRow(sheet.rows, sheet.name);
+  }
+
+  async listSheets(file: File): Promise<string[]> {
+    if (WORKBOOK_EXTENSIONS.includes(this.fileExtension(file))) {
+      const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', bookSheets: true });
+      return workbook.SheetNames;
+    }
+    return [];
+  }
+
+  private fileExtension(file: File): string {
+    const dot = file.name.lastIndexOf('.');
+    return dot === -1 ? '' : file.name.substring(dot + 1).toLowerCase();
+  }
+
+  private async readSheets(file: File, sheetNames?: string[]): Promise<SheetRows[]> {
+    if (WORKBOOK_EXTENSIONS.includes(this.fileExtension(file))) {
+      const fileContent = await file.arrayBuffer();
+      const workbook = XLSX.read(fileContent, { type: 'array' });
+      const names = sheetNames ?? [workbook.SheetNames[0]];
+      if (names.length === 0) {
+        throw new Error('Please select at least one sheet to import.');
+      }
+      return names.map(name => {
+        const worksheet = workbook.Sheets[name];
+        if (!worksheet) {
+          throw new Error(`Sheet "${name}" was not found in the workbook.`);
+        }
+        return { name, rows: XLSX.utils.sheet_to_json(worksheet, { header: 1 }) };
+      });
+    }
 
-  async parseQcFile(file: File, isAudible: boolean): Promise<Correction[]> {
-    if (file.name.endsWith('.csv')) {
+    return [{ name: null, rows: await this.readRows(file) }];
+  }
+
+  private async readRows(file: File): Promise<any[][]> {
+    const extension = this.fileExtension(file);
+
+    if (extension === 'json') {
+      return this.jsonToRows(await file.text());
+    }
+
+    if (extension === 'pdf') {
+      const pageTexts = await this.pdfService.extractPdfTextWithItems(await file.arrayBuffer());
+      return this.pdfTableToRows(pageTexts.map(pt => this.pdfService.groupItemsIntoLines(pt.items)));
+    }
+
+    if (SUPPORTED_EXTENSIONS.includes(extension)) {
+      const isTabSeparated = extension === 'tsv' || extension === 'tab';
       return new Promise((resolve, reject) => {
         Papa.parse(file, {
           skipEmptyLines: true,
+          // Papa auto-detects the delimiter for CSV; TSV exports are forced to tabs
+          delimiter: isTabSeparated ? '\t' : '',
           complete: (results: any) => {
             if (results.errors && results.errors.length > 0) {
               console.error('CSV parsing errors:', results.errors);
               return reject(new Error(`CSV Parsing Error: ${results.errors[0].message}`));
             }
-            try {
-              const corrections = this.parseRows(results.data, isAudible);
-              resolve(corrections);
-            } catch (error) {
-              reject(error);
-            }
+            resolve(results.data);
           },
           error: (err: any) => {
             reject(new Error('Failed to read or parse CSV file.'));
@@ -31,15 +243,107 @@ export class FileParserService {
       });
     }
 
-    if (file.name.endsWith('.xlsx')) {
-      const fileContent = await file.arrayBuffer();
-      const workbook = XLSX.read(fileContent, { type: 'array' });
-      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
-      const rows = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-      return this.parseRows(rows, isAudible);
+    throw new Error("Unsupported file type. Please upload a .csv, .tsv, .xlsx, .ods, .json or .pdf file.");
+  }
+
+  private jsonToRows(text: string): any[][] {
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new Error('Failed to parse JSON file.');
+    }
+
+    // Tracking tool exports wrap the records in an envelope object
+    if (data && !Array.isArray(data)) {
+      data = data.rows ?? data.corrections ?? data.data ?? data.items;
+    }
+    if (!Array.isArray(data)) {
+      throw new Error('JSON file must contain an array of rows or records.');
+    }
+    if (data.length === 0 || Array.isArray(data[0])) {
+      return data;
+    }
+
+    // Array of records: the union of keys, in first-seen order, becomes the header row
+    const header: string[] = [];
+    for (const record of data) {
+      if (!record || typeof record !== 'object') continue;
+      for (const key of Object.keys(record)) {
+        if (!header.includes(key)) header.push(key);
+      }
+    }
+    const rows = data
+      .filter((record: any) => record && typeof record === 'object')
+      .map((record: any) => header.map(key => record[key] ?? ''));
+    return [header, ...rows];
+  }
+
+  private pdfTableToRows(pages: PageTextItem[][][]): any[][] {
+    const COLUMN_TOLERANCE = 3;
+    const MERGE_GAP = 4;
+
+    // Adjacent items closer than MERGE_GAP are one cell (pdf.js often splits words)
+    const mergeCells = (line: PageTextItem[]): { x: number, text: string }[] => {
+      const cells: { x: number, text: string, right: number }[] = [];
+      for (const item of line) {
+        const last = cells[cells.length - 1];
+        if (last && item.x - last.right < MERGE_GAP) {
+          last.text += (item.x - last.right > 1 ? ' ' : '') + item.str;
+          last.right = item.x + item.width;
+        } else {
+          cells.push({ x: item.x, text: item.str, right: item.x + item.width });
+        }
+      }
+      return cells.map(c => ({ x: c.x, text: c.text.trim() }));
+    };
+
+    const isHeaderLine = (cells: { text: string }[]) =>
+      cells.length >= 3 && cells.some(c => /\bPAGE\b/i.test(c.text)) && cells.every(c => isNaN(Number(c.text)));
+
+    let header: string[] | null = null;
+    let anchors: number[] = [];
+    const rows: string[][] = [];
+
+    for (const lines of pages) {
+      for (const line of lines) {
+        const cells = mergeCells(line);
+        if (cells.length === 0) continue;
+
+        if (isHeaderLine(cells)) {
+          const headerText = cells.map(c => c.text);
+          // Tables repeat their header on each page; only the first one is kept as a row
+          if (!header) header = headerText;
+          anchors = cells.map(c => c.x);
+          continue;
+        }
+        if (!header) continue; // Title or preamble before the table starts
+
+        const row: string[] = new Array(anchors.length).fill('');
+        for (const cell of cells) {
+          let column = 0;
+          for (let i = 0; i < anchors.length; i++) {
+            if (anchors[i] <= cell.x + COLUMN_TOLERANCE) column = i;
+          }
+          row[column] = row[column] ? `${row[column]} ${cell.text}` : cell.text;
+        }
+
+        // Wrapped cell text continues on a line with an empty first column
+        const previous = rows[rows.length - 1];
+        if (previous && !row[0]) {
+          row.forEach((text, i) => {
+            if (text) previous[i] = previous[i] ? `${previous[i]} ${text}` : text;
+          });
+        } else {
+          rows.push(row);
+        }
+      }
     }
 
-    throw new Error("Unsupported file type. Please upload a .csv or .xlsx file.");
+    if (!header) {
+      throw new Error('Could not find a table with a PAGE column in the PDF file.');
+    }
+    return [header, ...rows];
   }
 
   private hasHeaders(rows: any[][], requiredCols: string[]): boolean {
@@ -53,7 +357,13 @@ export class FileParserService {
     return false;
   }
 
-  private parseRows(rows: any[][], isAudible: boolean): Correction[] {
+  private parseRows(rows: any[][], isAudible: boolean, options: QcParseOptions, sheetName: string | null): QcParseResult {
+    // An explicit or saved column mapping wins over format auto-detection
+    const mapped = this.findMappedHeader(rows, options.mapping);
+    if (mapped) {
+      return this.parseMappedRows(rows, mapped.rowIndex, mapped.profile, isAudible);
+    }
+
     // Attempt to auto-detect format
     const hasPostQcHeaders = this.hasHeaders(rows, ['CD-TRK', 'TIME', 'TEXT', 'EDITOR COMMENTS']);
     const hasStandardHeaders = this.hasHeaders(rows, ['ID', 'PAGE', 'CONTEXT', 'NOTES']);
@@ -63,12 +373,132 @@ export class FileParserService {
       return this.parsePostQcRows(rows, isAudible);
     }
 
-    // Default to standard parsing (which will throw a specific error if headers are not found)
+    if (!hasStandardHeaders) {
+      throw new ColumnMappingRequiredError(this.detectHeaderRow(rows, sheetName));
+    }
+
     return this.parseStandardQcRows(rows, isAudible);
   }
 
-  private parsePostQcRows(rows: any[][], isAudible: boolean): Correction[] {
-    const { header, data } = this.findPostQcHeaderAndData(rows);
+  private headerSignature(headers: string[]): string {
+    return headers.map(h => h ? h.toString().trim().toUpperCase() : '').filter(Boolean).join('|');
+  }
+
+  private findMappedHeader(rows: any[][], explicit?: ColumnProfile): { rowIndex: number, profile: ColumnProfile } | null {
+    for (let i = 0; i < rows.length; i++) {
+      if (!Array.isArray(rows[i])) continue;
+      const signature = this.headerSignature(rows[i]);
+      if (!signature) continue;
+      if (explicit && explicit.signature === signature) {
+        return { rowIndex: i, profile: explicit };
+      }
+      const saved = this.columnProfileService.findBySignature(signature);
+      if (saved) {
+        return { rowIndex: i, profile: saved };
+      }
+    }
+    return null;
+  }
+
+  private detectHeaderRow(rows: any[][], sheetName: string | null): DetectedHeader {
+    // The header is the first row made up mostly of non-numeric labels
+    const scanLimit = Math.min(rows.length, 25);
+    for (let i = 0; i < scanLimit; i++) {
+      if (!Array.isArray(rows[i])) continue;
+      const cells = rows[i].map(c => c ? c.toString().trim() : '');
+      const filled = cells.filter(Boolean);
+      const labels = filled.filter(c => isNaN(Number(c)));
+      if (filled.length >= 2 && labels.length / filled.length >= 0.75) {
+        return { rowIndex: i, headers: cells, signature: this.headerSignature(cells), sheetName: sheetName ?? undefined };
+      }
+    }
+
+    const firstRowIndex = rows.findIndex(r => Array.isArray(r) && r.length > 0);
+    if (firstRowIndex === -1) {
+      throw new Error(sheetName ? `Sheet "${sheetName}" is empty.` : 'The QC file is empty.');
+    }
+    const cells = rows[firstRowIndex].map(c => c ? c.toString().trim() : '');
+    return { rowIndex: firstRowIndex, headers: cells, signature: this.headerSignature(cells), sheetName: sheetName ?? undefined };
+  }
+
+  private parseMappedRows(rows: any[][], headerRowIndex: number, profile: ColumnProfile, isAudible: boolean): QcParseResult {
+    const headerUpper = rows[headerRowIndex].map(h => h ? h.toString().trim().toUpperCase() : '');
+    const columnOf = (field: MappableField): number => {
+      const header = profile.columns[field];
+      return header ? headerUpper.indexOf(header.trim().toUpperCase()) : -1;
+    };
+
+    const idIndex = columnOf('Id');
+    const pageIndex = columnOf('Page');
+    const contextIndex = columnOf('ContextPhrase');
+    const notesIndex = columnOf('Notes');
+    const trackIndex = columnOf('Track');
+    const timeIndex = columnOf('Timestamp');
+    const statusIndex = columnOf('Status');
+
+    if (pageIndex === -1 || contextIndex === -1) {
+      throw new Error(`Column profile "${profile.name}" must map both the page and context columns.`);
+    }
+
+    const cell = (row: any[], index: number): string => index !== -1 && row[index] ? row[index].toString() : '';
+
+    const corrections: Correction[] = [];
+    const skipped: SkippedRow[] = [];
+    let pickupId = 1;
+
+    for (const [i, row] of rows.slice(headerRowIndex + 1).entries()) {
+      if (!row || row.length === 0) continue;
+      const rowNumber = headerRowIndex + i + 2;
+
+      // Without a status column only rules on named columns can filter rows
+      const status = this.evaluateStatus(row, headerUpper, statusIndex !== -1 ? [statusIndex] : []);
+      if (!status.include) {
+        skipped.push(this.skippedRow(row, rowNumber, status.reason));
+        continue;
+      }
+
+      const pageLabel = cell(row, pageIndex).trim();
+      const pageMatch = pageLabel.match(/\d+/);
+      const page = pageMatch ? parseInt(pageMatch[0], 10) : 0;
+
+      const fullText = cell(row, contextIndex);
+      const processedNote = this.processNotes(cell(row, notesIndex), fullText.replace(/\[|\]/g, ''), isAudible);
+
+      if (!processedNote.searchableContext) {
+        skipped.push(this.skippedRow(row, rowNumber, 'No context phrase'));
+        continue;
+      }
+
+      // Bracketed words in the context mark the oblong, as in Post QC reports
+      let wordsForOblong = processedNote.wordsForOblong;
+      if (wordsForOblong.length === 0) {
+        const oblongMatch = fullText.match(/\[(.*?)\]/);
+        if (oblongMatch && oblongMatch[1]) {
+          wordsForOblong = oblongMatch[1].split(' ').filter(Boolean);
+        }
+      }
+
+      const id = cell(row, idIndex).trim();
+      corrections.push({
+        Id: id || String(pickupId),
+        Page: page,
+        PageLabel: pageLabel,
+        ContextPhrase: processedNote.searchableContext,
+        Notes: processedNote.formattedNote,
+        Track: cell(row, trackIndex),
+        Timestamp: cell(row, timeIndex),
+        correctionType: processedNote.correctionType,
+        wordsForOblong,
+        sourceRow: rowNumber,
+        noteRuleId: processedNote.ruleId,
+      });
+      pickupId++;
+    }
+    return { corrections, skipped };
+  }
+
+  private parsePostQcRows(rows: any[][], isAudible: boolean): QcParseResult {
+    const { header, data, headerIndex } = this.findPostQcHeaderAndData(rows);
     const headerUpper = header.map(h => h ? h.toString().trim().toUpperCase() : '');
 
     const trackIndex = headerUpper.indexOf('CD-TRK');
@@ -83,16 +513,16 @@ export class FileParserService {
     }
 
     const corrections: Correction[] = [];
+    const skipped: SkippedRow[] = [];
     let pickupId = 1;
 
-    for (const row of data) {
+    for (const [i, row] of data.entries()) {
       if (!row || row.length === 0) continue;
+      const rowNumber = headerIndex + i + 2;
 
-      const editorComment = row[editorCommentsIndex] ? row[editorCommentsIndex].toString().trim().toLowerCase() : '';
-      // Relaxed matching: check if comment includes key terms rather than exact match
-      const isPickup = ['fix', 'pickup', 'error', 'omit', 'insert', 'missing'].some(term => editorComment.includes(term));
-
-      if (!isPickup) {
+      const status = this.evaluateStatus(row, headerUpper, [editorCommentsIndex]);
+      if (!status.include) {
+        skipped.push(this.skippedRow(row, rowNumber, status.reason));
         continue;
       }
 
@@ -105,7 +535,7 @@ export class FileParserService {
 
       const rawContext = fullText.replace(/\[|\]/g, '');
 
-      const { formattedNote, wordsForOblong, correctionType, searchableContext } = this.processNotes(problemDescription, rawContext, isAudible);
+      const { formattedNote, wordsForOblong, correctionType, searchableContext, ruleId } = this.processNotes(problemDescription, rawContext, isAudible);
 
       // For Post QC, if wordsForOblong is empty, try to get it from the brackets in the text
       let finalWordsForOblong = wordsForOblong;
@@ -119,19 +549,22 @@ export class FileParserService {
       corrections.push({
         Id: String(pickupId++),
         Page: page,
+        PageLabel: pageStr.trim(),
         ContextPhrase: searchableContext,
         Notes: formattedNote,
         Track: row[trackIndex] ? row[trackIndex].toString() : '',
         Timestamp: row[timeIndex] ? row[timeIndex].toString() : '',
         correctionType: correctionType,
         wordsForOblong: finalWordsForOblong,
+        sourceRow: rowNumber,
+        noteRuleId: ruleId,
       });
     }
-    return corrections;
+    return { corrections, skipped };
   }
 
-  private parseStandardQcRows(rows: any[][], isAudible: boolean): Correction[] {
-    const { header, data } = this.findStandardHeaderAndData(rows);
+  private parseStandardQcRows(rows: any[][], isAudible: boolean): QcParseResult {
+    const { header, data, headerIndex } = this.findStandardHeaderAndData(rows);
     const headerUpper = header.map(h => h ? h.toString().trim().toUpperCase() : '');
 
     const idIndex = headerUpper.indexOf('ID');
@@ -141,10 +574,12 @@ export class FileParserService {
     const timeCodeIndex = headerUpper.indexOf('TIME CODE');
 
     const corrections: Correction[] = [];
+    const skipped: SkippedRow[] = [];
     let currentTrack = '';
 
-    for (const row of data) {
+    for (const [i, row] of data.entries()) {
       if (!row || row.length === 0) continue;
+      const rowNumber = headerIndex + i + 2;
 
       let trackFilename = '';
       for (const cell of row) {
@@ -164,49 +599,87 @@ export class FileParserService {
       }
 
       if (!row[idIndex] || isNaN(Number(row[idIndex]))) {
+        // Section titles and blank spacer rows aren't worth listing
+        if (row.filter((c: any) => c !== null && c !== undefined && c.toString().trim() !== '').length >= 2) {
+          skipped.push(this.skippedRow(row, rowNumber, 'No numeric pickup ID'));
+        }
         continue;
       }
 
-      let status = '';
-      if (contextIndex !== -1) {
-        for (let i = contextIndex + 1; i < row.length; i++) {
-          const cellValue = row[i] ? row[i].toString().trim().toLowerCase() : '';
-          // Relaxed matching
-          if (cellValue.includes('fix') || cellValue.includes('pickup')) {
-            status = 'pickup';
-            break;
-          }
-        }
+      // Status words can be in any column after CONTEXT
+      const statusCells = contextIndex !== -1 ? row.map((_: any, i: number) => i).filter((i: number) => i > contextIndex) : [];
+      const status = this.evaluateStatus(row, headerUpper, statusCells);
+      if (!status.include) {
+        skipped.push(this.skippedRow(row, rowNumber, status.reason));
+        continue;
       }
 
-      if (status === 'pickup') {
-        const notes = row[notesIndex] ? row[notesIndex].toString() : '';
-        const rawContext = row[contextIndex] ? row[contextIndex].toString() : '';
-        const timestamp = timeCodeIndex !== -1 && row[timeCodeIndex] ? row[timeCodeIndex].toString() : '';
+      const notes = row[notesIndex] ? row[notesIndex].toString() : '';
+      const rawContext = row[contextIndex] ? row[contextIndex].toString() : '';
+      const timestamp = timeCodeIndex !== -1 && row[timeCodeIndex] ? row[timeCodeIndex].toString() : '';
 
-        const processedNote = this.processNotes(notes, rawContext, isAudible);
+      const processedNote = this.processNotes(notes, rawContext, isAudible);
 
-        if (!processedNote.searchableContext) {
-          console.warn(`Correction on page ${row[pageIndex]} skipped because it has no context phrase.`);
-          continue;
-        }
-
-        corrections.push({
-          Id: row[idIndex].toString(),
-          Page: Number(row[pageIndex]),
-          ContextPhrase: processedNote.searchableContext,
-          Notes: processedNote.formattedNote,
-          Track: currentTrack,
-          Timestamp: timestamp,
-          correctionType: processedNote.correctionType,
-          wordsForOblong: processedNote.wordsForOblong,
-        });
+      if (!processedNote.searchableContext) {
+        skipped.push(this.skippedRow(row, rowNumber, 'No context phrase'));
+        continue;
       }
+
+      corrections.push({
+        Id: row[idIndex].toString(),
+        Page: Number(row[pageIndex]),
+        PageLabel: row[pageIndex] ? row[pageIndex].toString().trim() : '',
+        ContextPhrase: processedNote.searchableContext,
+        Notes: processedNote.formattedNote,
+        Track: currentTrack,
+        Timestamp: timestamp,
+        correctionType: processedNote.correctionType,
+        wordsForOblong: processedNote.wordsForOblong,
+        sourceRow: rowNumber,
+        noteRuleId: processedNote.ruleId,
+      });
     }
-    return corrections;
+    return { corrections, skipped };
+  }
+
+  /**
+   * Applies the status rules to a row. Exclude rules win over include rules; when no include
+   * rule applies to this report (e.g. a mapped report without a status column) the row is kept.
+   */
+  private evaluateStatus(row: any[], headerUpper: string[], statusCells: number[]): { include: boolean, reason: string } {
+    const cellsFor = (column: string): number[] => {
+      if (column.trim() === '*') return statusCells;
+      const index = headerUpper.indexOf(column.trim().toUpperCase());
+      return index === -1 ? [] : [index];
+    };
+
+    const rules = this.statusRuleService.rules().filter(r => r.enabled && cellsFor(r.column).length > 0);
+    const ruleMatches = (rule: (typeof rules)[number]): boolean => {
+      const hit = cellsFor(rule.column).some(i => this.statusRuleService.matchesCell(rule, row[i] ? row[i].toString() : ''));
+      return rule.negate ? !hit : hit;
+    };
+
+    const excludedBy = rules.find(r => r.action === 'exclude' && ruleMatches(r));
+    if (excludedBy) {
+      return { include: false, reason: `Excluded: ${this.statusRuleService.describe(excludedBy)}` };
+    }
+
+    const includeRules = rules.filter(r => r.action === 'include');
+    if (includeRules.length === 0 || includeRules.some(ruleMatches)) {
+      return { include: true, reason: '' };
+    }
+    return { include: false, reason: 'No include rule matched the status' };
+  }
+
+  private skippedRow(row: any[], rowNumber: number, reason: string): SkippedRow {
+    const preview = row
+      .map(c => c !== null && c !== undefined ? c.toString().trim() : '')
+      .filter(Boolean)
+      .join(' | ');
+    return { rowNumber, reason, preview: preview.length > 120 ? `${preview.substring(0, 117)}...` : preview };
   }
 
-  private findPostQcHeaderAndData(rows: any[][]): { header: string[], data: any[][] } {
+  private findPostQcHeaderAndData(rows: any[][]): { header: string[], data: any[][], headerIndex: number } {
     let headerIndex = -1;
     const requiredCols = ['CD-TRK', 'TIME', 'TEXT', 'EDITOR COMMENTS'];
 
@@ -225,10 +698,10 @@ export class FileParserService {
 
     const header = rows[headerIndex].map(h => h ? h.toString() : '');
     const data = rows.slice(headerIndex + 1);
-    return { header, data };
+    return { header, data, headerIndex };
   }
 
-  private findStandardHeaderAndData(rows: any[][]): { header: string[], data: any[][] } {
+  private findStandardHeaderAndData(rows: any[][]): { header: string[], data: any[][], headerIndex: number } {
     let headerIndex = -1;
     const requiredCols = ['ID', 'PAGE', 'CONTEXT', 'NOTES'];
 
@@ -247,7 +720,7 @@ export class FileParserService {
 
     const header = rows[headerIndex].map(h => h ? h.toString() : '');
     const data = rows.slice(headerIndex + 1);
-    return { header, data };
+    return { header, data, headerIndex };
   }
 
   private normalizeText(s: string): string {
@@ -255,6 +728,12 @@ export class FileParserService {
     return s.replace(/[﹏_]+/g, ' ').replace(/\s+/g, ' ').trim();
   }
 
+  /** Runs a single note through the grammar rules, for previewing rules in the UI. */
+  previewNote(notes: string, isAudible: boolean): { formattedNote: string, wordsForOblong: string[], correctionType: CorrectionType } {
+    const { formattedNote, wordsForOblong, correctionType } = this.processNotes(notes, '', isAudible);
+    return { formattedNote, wordsForOblong, correctionType };
+  }
+
   private processNotes(
     notes: string,
     rawContext: string,
@@ -262,11 +741,13 @@ export class FileParserService {
   ): {
     formattedNote: string,
     wordsForOblong: string[],
-    correctionType: 'misread' | 'missing' | 'inserted',
+    correctionType: CorrectionType,
     searchableContext: string,
+    ruleId?: string, // The grammar rule the note matched, if any
   } {
+    const searchableContext = this.normalizeText(rawContext);
     if (!notes) {
-      return { formattedNote: '', wordsForOblong: [], correctionType: 'misread', searchableContext: this.normalizeText(rawContext) };
+      return { formattedNote: '', wordsForOblong: [], correctionType: 'misread', searchableContext };
     }
     notes = notes.trim();
     let originalPrefix = '';
@@ -277,98 +758,31 @@ export class FileParserService {
       notes = notes.substring(prefixMatch[0].length);
     }
 
-    const sbMatch = notes.match(/^(.+?)\s+S\/B\s+(.+)$/i);
-    if (sbMatch) {
-      const wrong = sbMatch[1].trim().replace(/^["']|["']$/g, '');
-      const right = sbMatch[2].trim().replace(/^["']|["']$/g, '');
-      let formattedNote = `read as "${wrong}" should be read as "${right}"`;
-      if (isAudible) {
-        const prefix = originalPrefix === 'MW' ? 'MW: ' : 'MR: ';
-        formattedNote = prefix + formattedNote;
-      }
-      return {
-        formattedNote,
-        wordsForOblong: right.split(' ').filter(Boolean),
-        correctionType: 'misread',
-        searchableContext: this.normalizeText(rawContext)
-      };
-    }
-
-    const readAsMatch = notes.match(/^(.+?)\s+read as\s+(.+)$/i);
-    if (readAsMatch) {
-      // This format is "<correct_word> read as <incorrect_word>"
-      const correctWord = readAsMatch[1].trim().replace(/^["']|["']$/g, '');
-      const incorrectWord = readAsMatch[2].trim().replace(/^["']|["']$/g, '');
-
-      let formattedNote = `read as "${incorrectWord}" should be read as "${correctWord}"`;
-
-      if (isAudible) {
-        // This is always a misread, so we enforce MR prefix for Audible projects.
-        formattedNote = `MR: ${formattedNote}`;
-      }
-
-      return {
-        formattedNote,
-        wordsForOblong: correctWord.split(' ').filter(Boolean), // Encircle the correct word from the script
-        correctionType: 'misread',
-        searchableContext: this.normalizeText(rawContext)
-      };
-    }
-
-    const missingMatch = notes.match(/^(?:Word(?:s)?\s+)?Missing:\s+(.+)$/i);
-    if (missingMatch) {
-      const missing = missingMatch[1].trim().replace(/^["']|["']$/g, '');
-      let formattedNote = `"${missing}" is missing and should be read.`;
-      if (isAudible) {
-        const wordCount = missing.split(/\s+/).filter(Boolean).length;
-        const prefix = wordCount > 3 ? 'ML:' : 'MW:'; // Differentiate between missing word and missing line
-        formattedNote = `${prefix} ${formattedNote}`;
+    for (const rule of this.noteRuleService.rules()) {
+      if (!rule.enabled) continue;
+      const regex = this.noteRuleService.compile(rule);
+      if (!regex) {
+        console.warn(`Skipping note rule "${rule.name}" because its pattern is invalid.`);
+        continue;
       }
 
-      // The words to be circled are the missing words themselves.
-      const wordsForOblong = missing.split(' ').filter(Boolean);
-
-      return {
-        formattedNote,
-        wordsForOblong: wordsForOblong,
-        correctionType: 'missing',
-        // The full context should be searchable, as the word exists in the script.
-        searchableContext: this.normalizeText(rawContext)
-      };
-    }
-
-    const omittedMatch = notes.match(/^omitted\s+(.+)$/i);
-    if (omittedMatch) {
-      const omitted = omittedMatch[1].trim().replace(/^["']|["']$/g, '');
-      let formattedNote = `"${omitted}" was omitted and should be read.`;
-      if (isAudible) {
-        const wordCount = omitted.split(/\s+/).filter(Boolean).length;
-        const prefix = wordCount > 3 ? 'ML:' : 'MW:'; // Differentiate between missing word and missing line
-        formattedNote = `${prefix} ${formattedNote}`;
-      }
-      return {
-        formattedNote,
-        wordsForOblong: omitted.split(' ').filter(Boolean),
-        correctionType: 'missing',
-        searchableContext: this.normalizeText(rawContext)
-      };
-    }
+      const match = notes.match(regex);
+      if (!match) continue;
 
-    const insertedMatch = notes.match(/^(?:Word(?:s)?\s+)?Inserted:\s+(.+)$/i);
-    if (insertedMatch) {
-      const inserted = insertedMatch[1].trim().replace(/^["']|["']$/g, '');
-      let formattedNote = `"${inserted}" was inserted and should be omitted.`;
+      const captures = match.map((group, i) => i === 0 ? notes : (group ?? '').trim().replace(/^["']|["']$/g, ''));
+      let formattedNote = rule.noteTemplate.replace(/\$(\d)/g, (_, n) => captures[Number(n)] ?? '');
       if (isAudible) {
-        const wordCount = inserted.split(/\s+/).filter(Boolean).length;
-        const prefix = wordCount > 3 ? 'ML:' : 'MW:'; // Differentiate between inserted word and inserted line
-        formattedNote = `${prefix} ${formattedNote}`;
+        const prefix = this.audiblePrefixFor(rule, originalPrefix, captures[1] ?? '');
+        if (prefix) formattedNote = `${prefix}: ${formattedNote}`;
       }
 
+      const oblongText = rule.oblongGroup > 0 ? captures[rule.oblongGroup] ?? '' : '';
       return {
         formattedNote,
-        wordsForOblong: [], // Set to empty array to disable circling for inserted words
-        correctionType: 'inserted',
-        searchableContext: this.normalizeText(rawContext)
+        wordsForOblong: oblongText.split(' ').filter(Boolean),
+        correctionType: rule.correctionType,
+        searchableContext,
+        ruleId: rule.id,
       };
     }
 
@@ -384,26 +798,23 @@ export class FileParserService {
       formattedNote,
       wordsForOblong: [],
       correctionType: 'misread',
-      searchableContext: this.normalizeText(rawContext)
+      searchableContext
     };
   }
 
-  normalizeForSearch(s: string): string {
-    if (!s) return '';
-    return s
-      .toLowerCase()
-      // ligatures
-      .replace(/ﬁ/g, 'fi')
-      .replace(/ﬂ/g, 'fl')
-      .replace(/ﬀ/g, 'ff')
-      .replace(/ﬃ/g, 'ffi')
-      .replace(/ﬄ/g, 'ffl')
-      // quotes
-      .replace(/[‘’]/g, "'")
-      .replace(/[“”]/g, '"')
-      // keep letters, numbers, apostrophes, spaces
-      .replace(/[^a-z0-9'\s]+/g, ' ')
-      .replace(/\s+/g, ' ')
-      .trim();
+  private audiblePrefixFor(rule: NoteRule, originalPrefix: string, firstCapture: string): string {
+    switch (rule.audiblePrefix) {
+      case 'original-or-mr':
+        return originalPrefix === 'MW' ? 'MW' : 'MR';
+      case 'mr':
+        return 'MR';
+      case 'by-word-count': {
+        // Differentiate between a missing/inserted word and a whole line
+        const wordCount = firstCapture.split(/\s+/).filter(Boolean).length;
+        return wordCount > 3 ? 'ML' : 'MW';
+      }
+      case 'none':
+        return '';
+    }
   }
 }
\ No newline at end of file
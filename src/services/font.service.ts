@@ -0,0 +1,116 @@
+import { Injectable } from '@angular/core';
+
+declare var PDFLib: any;
+declare var fontkit: any;
+
+// DejaVu Sans is copied into the build (see the assets in angular.json): Latin, Greek and Cyrillic in full,
+// plus Hebrew, Armenian, Georgian and most typographic symbols
+const BUNDLED_FONT = 'fonts/DejaVuSans.ttf';
+const REPLACEMENT = '?';
+
+interface StackedFont {
+  font: any;
+  codePoints: Set<number>;
+}
+
+// The fonts embedded in one pack, tried in order for each character of the notes
+export interface FontStack {
+  fonts: StackedFont[];
+  missing: Set<string>; // Characters no font had, already warned about
+}
+
+// A stretch of text drawn in one font
+interface FontRun extends StackedFont {
+  text: string;
+}
+
+@Injectable({ providedIn: 'root' })
+export class FontService {
+  private bundled: Promise<ArrayBuffer | null> | null = null;
+
+  /**
+   * Embeds the user's font when there is one, then the bundled Unicode font, then Helvetica, each
+   * subset to the glyphs the pack uses. Without fontkit or the bundled file, notes fall back to Helvetica.
+   */
+  async embedStack(pdfDoc: any, userFont: ArrayBuffer | null): Promise<FontStack> {
+    const sources: { bytes: ArrayBuffer; supplied: boolean }[] = [];
+    if (typeof fontkit === 'undefined') {
+      console.warn('Font subsetting is unavailable; notes are limited to the characters Helvetica has.');
+    } else {
+      pdfDoc.registerFontkit(fontkit);
+      if (userFont) sources.push({ bytes: userFont, supplied: true });
+      const bundled = await this.bundledFont();
+      if (bundled) sources.push({ bytes: bundled, supplied: false });
+    }
+
+    const fonts: StackedFont[] = [];
+    for (const { bytes, supplied } of sources) {
+      try {
+        const font = await pdfDoc.embedFont(bytes, { subset: true });
+        fonts.push({ font, codePoints: new Set(font.getCharacterSet()) });
+      } catch (error) {
+        if (!supplied) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`The notes font can't be used (${message}). Choose a TrueType or OpenType font file.`);
+      }
+    }
+    const helvetica = await pdfDoc.embedFont(PDFLib.StandardFonts.Helvetica);
+    fonts.push({ font: helvetica, codePoints: new Set(helvetica.getCharacterSet()) });
+    return { fonts, missing: new Set() };
+  }
+
+  widthOfTextAtSize(stack: FontStack, text: string, size: number): number {
+    return this.runs(stack, text).reduce((width, run) => width + run.font.widthOfTextAtSize(run.text, size), 0);
+  }
+
+  /** Draws the text run by run, each in the first font of the stack that has its characters. */
+  drawText(page: any, stack: FontStack, text: string, options: { x: number; y: number; size: number; color: any }): void {
+    let x = options.x;
+    for (const run of this.runs(stack, text)) {
+      page.drawText(run.text, { ...options, x, font: run.font });
+      x += run.font.widthOfTextAtSize(run.text, options.size);
+    }
+  }
+
+  // Splits the text where the font that can draw it changes. A character no font has is drawn as
+  // REPLACEMENT, which the last font, Helvetica, always has.
+  private runs(stack: FontStack, text: string): FontRun[] {
+    const runs: FontRun[] = [];
+    for (let ch of text.normalize('NFC')) {
+      const codePoint = ch.codePointAt(0)!;
+      let entry = stack.fonts.find(f => f.codePoints.has(codePoint));
+      if (!entry) {
+        if (!stack.missing.has(ch)) {
+          stack.missing.add(ch);
+          console.warn(`No notes font has "${ch}" (U+${codePoint.toString(16).toUpperCase().padStart(4, '0')}); it is drawn as "${REPLACEMENT}".`);
+        }
+        ch = REPLACEMENT;
+        entry = stack.fonts.find(f => f.codePoints.has(REPLACEMENT.codePointAt(0)!))!;
+      }
+      // Spaces stay in the run they follow, so a space between words of one font isn't drawn in another
+      const last = runs[runs.length - 1];
+      if (last && (last.font === entry.font || (ch === ' ' && last.codePoints.has(codePoint)))) {
+        last.text += ch;
+      } else {
+        runs.push({ ...entry, text: ch });
+      }
+    }
+    return runs;
+  }
+
+  private bundledFont(): Promise<ArrayBuffer | null> {
+    if (!this.bundled) {
+      this.bundled = fetch(new URL(BUNDLED_FONT, document.baseURI).href)
+        .then(response => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          return response.arrayBuffer();
+        })
+        .catch(error => {
+          console.warn('Could not load the bundled notes font; notes are limited to the characters Helvetica has:', error);
+          this.bundled = null; // Try again next time
+          return null;
+        });
+    }
+    return this.bundled;
+  }
+}
@@ -0,0 +1,255 @@
+import { Injectable } from '@angular/core';
+import { PageTextItem } from '../models';
+
+// Lines read top to bottom without a break: a column, a side note, or part of one.
+// The extent is in the block's own frame, where u runs along the baseline and v up from it.
+export interface TextBlock {
+  angle: number;
+  lines: PageTextItem[][];
+  left: number;
+  right: number;
+  bottom: number;
+  top: number;
+}
+
+// An item in its orientation's frame
+interface FramedItem {
+  item: PageTextItem;
+  u: number;
+  v: number;
+  end: number;
+  height: number;
+}
+
+// Part of a line on one side of a column gutter
+interface Fragment {
+  items: FramedItem[];
+  left: number;
+  right: number;
+  baseline: number;
+  height: number;
+}
+
+const ANGLE_TOLERANCE = 2 * Math.PI / 180; // Scanned pages are rarely perfectly straight
+const LINE_TOLERANCE = 0.5; // Baselines closer than this many text heights share a line
+const GUTTER = 1.2; // A gap wider than this many text heights may be a gutter between columns...
+const MIN_GUTTER = 8;
+const MIN_COLUMN_WIDTH = 8; // ...when the text either side is at least this many heights wide...
+const MIN_GUTTER_LINES = 3; // ...and the gap runs down at least this many lines
+const PARAGRAPH_GAP = 2.5; // Lines further apart than this many heights start a new block
+
+@Injectable({ providedIn: 'root' })
+export class LayoutService {
+
+  /** Lines of the page in reading order: column by column, with rotated text after the main text. */
+  readingOrder(items: PageTextItem[]): PageTextItem[][] {
+    return this.analyze(items).flatMap(block => block.lines);
+  }
+
+  /**
+   * Splits the page into blocks of text and orders them for reading. Text in each direction is
+   * laid out in its own frame; a line is only split where a gutter runs down several lines with
+   * full-width text either side, so a speaker name set apart from its dialogue stays on its line.
+   */
+  analyze(items: PageTextItem[]): TextBlock[] {
+    const orientations: { angle: number; items: PageTextItem[]; chars: number }[] = [];
+    for (const item of items) {
+      if (item.str.trim() === '') continue;
+      const angle = this.angleOf(item);
+      let orientation = orientations.find(o => this.angleDifference(o.angle, angle) <= ANGLE_TOLERANCE);
+      if (!orientation) {
+        orientation = { angle, items: [], chars: 0 };
+        orientations.push(orientation);
+      }
+      orientation.items.push(item);
+      orientation.chars += item.str.length;
+    }
+    orientations.sort((a, b) => b.chars - a.chars);
+
+    return orientations.flatMap(o => this.orderBlocks(this.buildBlocks(o.items, o.angle)));
+  }
+
+  /** Block holding the item, if any. */
+  blockOf(blocks: TextBlock[], item: PageTextItem): TextBlock | undefined {
+    return blocks.find(block => block.lines.some(line => line.includes(item)));
+  }
+
+  /** Baseline direction in radians, counter-clockwise from the page's x axis. */
+  angleOf(item: PageTextItem): number {
+    return item.angle ?? 0;
+  }
+
+  /** Whether two items run the same way and share a baseline. */
+  sameLine(a: PageTextItem, b: PageTextItem): boolean {
+    const angle = this.angleOf(a);
+    if (this.angleDifference(angle, this.angleOf(b)) > ANGLE_TOLERANCE) return false;
+    const height = Math.max(a.height || 10, b.height || 10);
+    return Math.abs(this.toFrame(a.x, a.y, angle).v - this.toFrame(b.x, b.y, angle).v) < height * LINE_TOLERANCE;
+  }
+
+  /** Whether a gap along a line is wide enough to be a gutter rather than a word space. */
+  isGutter(gap: number, height: number): boolean {
+    return gap > Math.max(MIN_GUTTER, (height || 10) * GUTTER);
+  }
+
+  /** Fraction of the item's width before the given character; characters are taken as equally wide when glyph widths aren't known. */
+  fractionAt(item: PageTextItem, charIndex: number): number {
+    return item.charOffsets?.[charIndex] ?? charIndex / (item.str.length || 1);
+  }
+
+  /** Page point a fraction of the way along the item's baseline, raised `rise` above it. */
+  pointAlong(item: PageTextItem, frac: number, rise = 0): { x: number; y: number } {
+    const angle = this.angleOf(item);
+    const { u, v } = this.toFrame(item.x, item.y, angle);
+    return this.fromFrame(u + item.width * frac, v + rise, angle);
+  }
+
+  /** Page coordinates in a frame turned by `angle`: u along the baseline, v perpendicular to it. */
+  toFrame(x: number, y: number, angle: number): { u: number; v: number } {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return { u: x * cos + y * sin, v: -x * sin + y * cos };
+  }
+
+  fromFrame(u: number, v: number, angle: number): { x: number; y: number } {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return { x: u * cos - v * sin, y: u * sin + v * cos };
+  }
+
+  private buildBlocks(items: PageTextItem[], angle: number): TextBlock[] {
+    const framed: FramedItem[] = items.map(item => {
+      const { u, v } = this.toFrame(item.x, item.y, angle);
+      return { item, u, v, end: u + item.width, height: item.height || 10 };
+    });
+    framed.sort((a, b) => b.v - a.v || a.u - b.u);
+
+    const lines: FramedItem[][] = [];
+    for (const f of framed) {
+      const line = lines.find(l => Math.abs(l[0].v - f.v) < Math.max(l[0].height, f.height) * LINE_TOLERANCE);
+      if (line) {
+        line.push(f);
+      } else {
+        lines.push([f]);
+      }
+    }
+    lines.forEach(line => line.sort((a, b) => a.u - b.u));
+
+    const gutters = this.findGutters(lines);
+    const fragments: Fragment[] = lines.flatMap(line => {
+      const parts: FramedItem[][] = [[line[0]]];
+      for (let i = 1; i < line.length; i++) {
+        const previousEnd = Math.max(...parts[parts.length - 1].map(f => f.end));
+        const gapStart = previousEnd;
+        const gapEnd = line[i].u;
+        const splits = this.isGutter(gapEnd - gapStart, line[i].height) && gutters.some(g => gapStart < g.end && gapEnd > g.start);
+        if (splits) {
+          parts.push([line[i]]);
+        } else {
+          parts[parts.length - 1].push(line[i]);
+        }
+      }
+      return parts.map(part => ({
+        items: part,
+        left: Math.min(...part.map(f => f.u)),
+        right: Math.max(...part.map(f => f.end)),
+        baseline: part[0].v,
+        height: Math.max(...part.map(f => f.height)),
+      }));
+    });
+
+    // Chain each fragment onto the block whose last line sits just above it in the same column
+    const chains: Fragment[][] = [];
+    for (const fragment of fragments) {
+      const near = chains.filter(chain => {
+        const last = chain[chain.length - 1];
+        const drop = last.baseline - fragment.baseline;
+        return drop > 0 && drop <= PARAGRAPH_GAP * Math.max(last.height, fragment.height) && this.overlap(last, fragment) > 0;
+      });
+      if (near.length === 1 && this.continuesColumn(near[0][near[0].length - 1], fragment)) {
+        near[0].push(fragment);
+      } else {
+        chains.push([fragment]);
+      }
+    }
+
+    return chains.map(chain => ({
+      angle,
+      lines: chain.map(fragment => fragment.items.map(f => f.item)),
+      left: Math.min(...chain.map(f => f.left)),
+      right: Math.max(...chain.map(f => f.right)),
+      bottom: Math.min(...chain.map(f => f.baseline)),
+      top: Math.max(...chain.map(f => f.baseline + f.height)),
+    }));
+  }
+
+  // Gaps between wide runs of text that line up down the page
+  private findGutters(lines: FramedItem[][]): { start: number; end: number }[] {
+    const candidates: { start: number; end: number; lines: number }[] = [];
+    for (const line of lines) {
+      let runStart = 0;
+      const runs: { left: number; right: number; height: number }[] = [];
+      for (let i = 1; i <= line.length; i++) {
+        const runEnd = Math.max(...line.slice(runStart, i).map(f => f.end));
+        if (i === line.length || this.isGutter(line[i].u - runEnd, line[i].height)) {
+          const run = line.slice(runStart, i);
+          runs.push({ left: run[0].u, right: runEnd, height: Math.max(...run.map(f => f.height)) });
+          runStart = i;
+        }
+      }
+      for (let i = 1; i < runs.length; i++) {
+        const [before, after] = [runs[i - 1], runs[i]];
+        const wide = (run: typeof before) => run.right - run.left >= MIN_COLUMN_WIDTH * run.height;
+        if (!wide(before) || !wide(after)) continue;
+        const existing = candidates.find(c => before.right < c.end && after.left > c.start);
+        if (existing) {
+          existing.start = Math.max(existing.start, before.right);
+          existing.end = Math.min(existing.end, after.left);
+          existing.lines++;
+        } else {
+          candidates.push({ start: before.right, end: after.left, lines: 1 });
+        }
+      }
+    }
+    return candidates.filter(c => c.lines >= MIN_GUTTER_LINES);
+  }
+
+  // Same column: mostly overlapping, or sharing a left margin (a short last line or an indent)
+  private continuesColumn(above: Fragment, below: Fragment): boolean {
+    const widest = Math.max(above.right - above.left, below.right - below.left) || 1;
+    return this.overlap(above, below) / widest >= 0.6 || Math.abs(above.left - below.left) <= 2 * Math.max(above.height, below.height);
+  }
+
+  private overlap(a: { left: number; right: number }, b: { left: number; right: number }): number {
+    return Math.min(a.right, b.right) - Math.max(a.left, b.left);
+  }
+
+  /**
+   * Reading order for blocks: of two blocks sharing columns, the higher comes first; of two side
+   * by side, the left one; otherwise the higher. The rule isn't always transitive, so blocks are
+   * taken in topological order, falling back to the top-left block when it loops.
+   */
+  private orderBlocks(blocks: TextBlock[]): TextBlock[] {
+    const before = (a: TextBlock, b: TextBlock): boolean => {
+      if (this.overlap(a, b) > 0) return a.top > b.top;
+      if (Math.min(a.top, b.top) - Math.max(a.bottom, b.bottom) > 0) return a.left < b.left;
+      return a.top > b.top;
+    };
+    const topLeft = (a: TextBlock, b: TextBlock) => b.top - a.top || a.left - b.left;
+
+    const remaining = [...blocks];
+    const ordered: TextBlock[] = [];
+    while (remaining.length > 0) {
+      const ready = remaining.filter(block => !remaining.some(other => other !== block && before(other, block)));
+      const next = (ready.length > 0 ? ready : remaining).sort(topLeft)[0];
+      ordered.push(next);
+      remaining.splice(remaining.indexOf(next), 1);
+    }
+    return ordered;
+  }
+
+  private angleDifference(a: number, b: number): number {
+    const diff = Math.abs(a - b) % (2 * Math.PI);
+    return Math.min(diff, 2 * Math.PI - diff);
+  }
+}
@@ -0,0 +1,179 @@
+import { Injectable, signal } from '@angular/core';
+import { NoteRule } from '../models';
+
+const STORAGE_KEY = 'qcPackGenerator.noteRules';
+
+// Words a sound, pacing or voice note may open with before saying what it is, e.g. "Loud click"
+const QUALIFIERS = '^(?:(?:loud|soft|slight|slightly|light|heavy|extra|audible|background|distracting|noticeable|inconsistent)\\s+)*';
+
+export const DEFAULT_NOTE_RULES: NoteRule[] = [
+  {
+    id: 'should-be',
+    name: 'X S/B Y',
+    pattern: '^(.+?)\\s+S\\/B\\s+(.+)$',
+    correctionType: 'misread',
+    oblongGroup: 2,
+    noteTemplate: 'read as "$1" should be read as "$2"',
+    audiblePrefix: 'original-or-mr',
+    enabled: true,
+  },
+  {
+    // This format is "<correct_word> read as <incorrect_word>"
+    id: 'read-as',
+    name: 'X read as Y',
+    pattern: '^(.+?)\\s+read as\\s+(.+)$',
+    correctionType: 'misread',
+    oblongGroup: 1,
+    noteTemplate: 'read as "$2" should be read as "$1"',
+    audiblePrefix: 'mr',
+    enabled: true,
+  },
+  {
+    id: 'missing',
+    name: 'Missing: X',
+    pattern: '^(?:Word(?:s)?\\s+)?Missing:\\s+(.+)$',
+    correctionType: 'missing',
+    oblongGroup: 1,
+    noteTemplate: '"$1" is missing and should be read.',
+    audiblePrefix: 'by-word-count',
+    enabled: true,
+  },
+  {
+    id: 'omitted',
+    name: 'omitted X',
+    pattern: '^omitted\\s+(.+)$',
+    correctionType: 'missing',
+    oblongGroup: 1,
+    noteTemplate: '"$1" was omitted and should be read.',
+    audiblePrefix: 'by-word-count',
+    enabled: true,
+  },
+  {
+    id: 'inserted',
+    name: 'Inserted: X',
+    pattern: '^(?:Word(?:s)?\\s+)?Inserted:\\s+(.+)$',
+    correctionType: 'inserted',
+    oblongGroup: 0, // Inserted words aren't in the script, so nothing is circled
+    noteTemplate: '"$1" was inserted and should be omitted.',
+    audiblePrefix: 'by-word-count',
+    enabled: true,
+  },
+  {
+    id: 'mispronunciation',
+    name: 'MP: / Mispronounced X',
+    pattern: '^(?:MP\\s*:|Mispron\\w*)\\s*:?\\s*(.+)$',
+    correctionType: 'mispronunciation',
+    oblongGroup: 0,
+    noteTemplate: 'Mispronounced: $1',
+    audiblePrefix: 'none',
+    enabled: true,
+  },
+  {
+    id: 'transposition',
+    name: 'Transposed X',
+    pattern: '^Transpos\\w*\\s*:?\\s*(.+)$',
+    correctionType: 'transposition',
+    oblongGroup: 1,
+    noteTemplate: '"$1" was transposed and should be read as written.',
+    audiblePrefix: 'original-or-mr',
+    enabled: true,
+  },
+  // The rules below only match notes that open with what they describe, so a misread note quoting one
+  // of their words, such as "said 'static' for 'statistic'", isn't taken for a sound or pacing note.
+  {
+    // Listed before noise so "mouth noise" isn't classed as a room noise
+    id: 'mouth-sound',
+    name: 'Mouth sounds',
+    pattern: QUALIFIERS + '(?:mouth\\s+(?:noise|sound|click)s?|lip\\s+smacks?|smacks?|saliva|breath(?:s|y)?)\\b',
+    correctionType: 'mouth-sound',
+    oblongGroup: 0,
+    noteTemplate: '$0',
+    audiblePrefix: 'none',
+    enabled: true,
+  },
+  {
+    id: 'noise',
+    name: 'Noise / clicks',
+    pattern: QUALIFIERS + '(?:noise|clicks?|pops?|hum|buzz|thumps?|bumps?|static|rustle)\\b',
+    correctionType: 'noise',
+    oblongGroup: 0,
+    noteTemplate: '$0',
+    audiblePrefix: 'none',
+    enabled: true,
+  },
+  {
+    id: 'pacing',
+    name: 'Pacing',
+    pattern: QUALIFIERS + '(?:pacing|pace|too\\s+(?:fast|slow)|rushed|(?:long|short)\\s+pause)\\b',
+    correctionType: 'pacing',
+    oblongGroup: 0,
+    noteTemplate: '$0',
+    audiblePrefix: 'none',
+    enabled: true,
+  },
+  {
+    id: 'character-voice',
+    name: 'Character voice',
+    pattern: QUALIFIERS + '(?:character\\s+voice|wrong\\s+voice|voice\\s+(?:inconsisten\\w*|change)|accent)\\b',
+    correctionType: 'character-voice',
+    oblongGroup: 0,
+    noteTemplate: '$0',
+    audiblePrefix: 'none',
+    enabled: true,
+  },
+];
+
+@Injectable({ providedIn: 'root' })
+export class NoteRuleService {
+  readonly rules = signal<NoteRule[]>(this.load());
+
+  setRules(rules: NoteRule[]): void {
+    this.rules.set(rules);
+    this.persist();
+  }
+
+  resetToDefaults(): void {
+    this.rules.set(DEFAULT_NOTE_RULES.map(rule => ({ ...rule })));
+    localStorage.removeItem(STORAGE_KEY);
+  }
+
+  /** Returns the compiled pattern, or null when the rule's regex is invalid. */
+  compile(rule: NoteRule): RegExp | null {
+    try {
+      return new RegExp(rule.pattern, 'i');
+    } catch {
+      return null;
+    }
+  }
+
+  private load(): NoteRule[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const parsed = raw ? JSON.parse(raw) : null;
+      if (Array.isArray(parsed)) return this.withNewDefaults(parsed);
+    } catch (error) {
+      console.warn('Could not read saved note rules:', error);
+    }
+    return DEFAULT_NOTE_RULES.map(rule => ({ ...rule }));
+  }
+
+  // Default rules added since the rules were saved go in before the default that follows them,
+  // so they take their place in the matching order. Saved rules are kept as they are.
+  private withNewDefaults(saved: NoteRule[]): NoteRule[] {
+    const rules = [...saved];
+    DEFAULT_NOTE_RULES.forEach((rule, k) => {
+      if (rules.some(r => r.id === rule.id)) return;
+      const next = DEFAULT_NOTE_RULES.slice(k + 1).map(d => rules.findIndex(r => r.id === d.id)).find(i => i !== -1);
+      rules.splice(next ?? rules.length, 0, { ...rule });
+    });
+    return rules;
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.rules()));
+    } catch (error) {
+      console.warn('Could not save note rules:', error);
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { Injectable } from '@angular/core';
+import { PageTextItem } from '../models';
+
+declare var Tesseract: any;
+
+// The engine, its WebAssembly core and the English model are copied into the build (see the
+// assets in angular.json), so OCR works without a network connection
+const OCR_ROOT = 'ocr';
+const RENDER_SCALE = 3; // About 216 dpi; Tesseract reads poorly below 150
+const MIN_TEXT_CHARACTERS = 20; // Pages with less text than this are treated as scans
+const MIN_WORD_CONFIDENCE = 30; // Tesseract's 0–100 confidence; below this it's usually speckle
+
+@Injectable({ providedIn: 'root' })
+export class OcrService {
+  private worker: Promise<any> | null = null;
+  // Recognized pages by document fingerprint and page number, as the script is read several times
+  private pages = new Map<string, Promise<PageTextItem[]>>();
+
+  /** Whether the text layer is missing or too thin to search, as on a scanned page. */
+  needsOcr(items: PageTextItem[]): boolean {
+    return items.reduce((count, item) => count + item.str.replace(/\s/g, '').length, 0) < MIN_TEXT_CHARACTERS;
+  }
+
+  /**
+   * Renders the pdf.js page and reads it with OCR, returning one item per word in PDF coordinates.
+   * Each word carries a trailing space, with its width stretched to match, so words stay apart
+   * when items are joined into a corpus.
+   */
+  recognizePage(pdfDoc: any, page: any): Promise<PageTextItem[]> {
+    const key = `${pdfDoc.fingerprints?.[0] ?? pdfDoc.fingerprint}:${page.pageNumber}`;
+    let result = this.pages.get(key);
+    if (!result) {
+      result = this.recognize(page);
+      result.catch(() => { this.pages.delete(key); }); // Let a failed page be tried again
+      this.pages.set(key, result);
+    }
+    return result;
+  }
+
+  private async recognize(page: any): Promise<PageTextItem[]> {
+    const viewport = page.getViewport({ scale: RENDER_SCALE });
+    const canvas = document.createElement('canvas');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    try {
+      await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+      const worker = await this.getWorker();
+      const { data } = await worker.recognize(canvas, {}, { blocks: true });
+
+      const items: PageTextItem[] = [];
+      for (const block of data.blocks ?? []) {
+        for (const paragraph of block.paragraphs) {
+          for (const line of paragraph.lines) {
+            for (const word of line.words) {
+              const text = word.text.trim();
+              if (!text || word.confidence < MIN_WORD_CONFIDENCE) continue;
+              items.push(this.toItem(text, word.bbox, line, viewport));
+            }
+          }
+        }
+      }
+      return items;
+    } finally {
+      canvas.width = 0; // Free the bitmap straight away
+      canvas.height = 0;
+    }
+  }
+
+  // Image coordinates run down from the top left; the word sits on its line's (possibly sloping) baseline
+  private toItem(text: string, bbox: { x0: number; y0: number; x1: number; y1: number }, line: any, viewport: any): PageTextItem {
+    const { x0, y0, x1, y1 } = line.baseline;
+    const baselineAt = (x: number) => x1 === x0 ? y1 : y0 + (y1 - y0) * (x - x0) / (x1 - x0);
+    const [startX, startY] = viewport.convertToPdfPoint(bbox.x0, baselineAt(bbox.x0));
+    const [endX, endY] = viewport.convertToPdfPoint(bbox.x1, baselineAt(bbox.x1));
+    const wordWidth = Math.hypot(endX - startX, endY - startY);
+    return {
+      str: `${text} `,
+      x: startX,
+      y: startY,
+      width: wordWidth * (text.length + 1) / text.length,
+      height: Math.max(1, baselineAt(bbox.x0) - line.bbox.y0) / RENDER_SCALE,
+      angle: Math.atan2(endY - startY, endX - startX),
+    };
+  }
+
+  private getWorker(): Promise<any> {
+    if (!this.worker) {
+      // Absolute URLs, as the worker resolves relative paths against its own location
+      const url = (path: string) => new URL(`${OCR_ROOT}/${path}`, document.baseURI).href;
+      this.worker = Tesseract.createWorker('eng', 1, {
+        workerPath: url('worker.min.js'),
+        corePath: url('core'),
+        langPath: url('lang'),
+        workerBlobURL: false,
+      });
+      this.worker!.catch(() => { this.worker = null; });
+    }
+    return this.worker!;
+  }
+}
@@ -0,0 +1,191 @@
+import { Injectable } from '@angular/core';
+import { Correction, OffsetRange, OffsetSuggestion, PageMapping, PageText, PageTextItem } from '../models';
+import { normalizeForSearch } from '../text-normalization';
+
+const MAX_SAMPLE = 40;
+const MIN_CONTEXT_LENGTH = 15; // Shorter phrases turn up on too many pages to say anything
+const FOLIO_NEIGHBOURHOOD = 5; // Pages either side that must agree with a detected folio
+const ROMAN_NUMERALS: [string, number][] = [
+  ['m', 1000], ['cm', 900], ['d', 500], ['cd', 400], ['c', 100], ['xc', 90],
+  ['l', 50], ['xl', 40], ['x', 10], ['ix', 9], ['v', 5], ['iv', 4], ['i', 1],
+];
+
+interface Folio {
+  kind: 'arabic' | 'roman';
+  value: number;
+  upper: boolean;
+}
+
+@Injectable({ providedIn: 'root' })
+export class PageOffsetService {
+
+  /** PDF page a correction's report page refers to, or null when it can't be mapped. */
+  pdfPageFor(correction: Correction, mapping: PageMapping): number | null {
+    switch (mapping.mode) {
+      case 'physical':
+        return Number.isFinite(correction.Page) && correction.Page > 0 ? correction.Page : null;
+      case 'label': {
+        const wanted = (correction.PageLabel || String(correction.Page)).trim().toLowerCase();
+        const index = (mapping.pageLabels ?? []).findIndex(label => label !== null && label.trim().toLowerCase() === wanted);
+        return index === -1 ? null : index + 1;
+      }
+      default:
+        return correction.Page + this.offsetFor(correction.Page, mapping.pageOffset, mapping.offsetRanges);
+    }
+  }
+
+  /**
+   * Reads the printed page number from each page's header or footer line, for scripts without
+   * /PageLabels. A folio only counts when a nearby page agrees with it, which weeds out years
+   * and chapter numbers; pages between two agreeing folios (chapter openers) are filled in.
+   * Returns null when too few folios are found to trust.
+   */
+  detectPrintedLabels(pageTexts: PageText[]): (string | null)[] | null {
+    const folios = pageTexts.map(pt => this.findFolio(pt.items));
+    // Within a run of numbered pages, folio value minus page index stays constant
+    const consistent = folios.map((folio, i) => folio !== null && folios.some((other, j) =>
+      j !== i && other !== null && Math.abs(j - i) <= FOLIO_NEIGHBOURHOOD &&
+      other.kind === folio.kind && other.value - j === folio.value - i));
+
+    const labels: (string | null)[] = folios.map((folio, i) => folio && consistent[i] ? this.formatFolio(folio) : null);
+    if (labels.filter(Boolean).length < 2) return null;
+
+    let previous = -1;
+    folios.forEach((folio, i) => {
+      if (!folio || !consistent[i]) return;
+      const before = previous >= 0 ? folios[previous]! : null;
+      if (before && before.kind === folio.kind && folio.value - before.value === i - previous) {
+        for (let j = previous + 1; j < i; j++) {
+          labels[j] = this.formatFolio({ ...folio, value: folio.value - (i - j) });
+        }
+      }
+      previous = i;
+    });
+    return labels;
+  }
+
+  /** Offset for a report page: the matching range if there is one, otherwise the single offset. */
+  offsetFor(reportPage: number, pageOffset: number, ranges: OffsetRange[] | null | undefined): number {
+    const range = ranges?.find(r => reportPage >= r.fromPage && (r.toPage === null || reportPage <= r.toPage));
+    return range ? range.offset : pageOffset;
+  }
+
+  /**
+   * Looks a sample of context phrases up in the script and suggests the offset(s) that line the
+   * report pages up with the PDF pages. A change of offset partway through (an inserted map or
+   * plate section) starts a new range.
+   */
+  suggestOffsets(corrections: Correction[], pageTexts: PageText[]): OffsetSuggestion {
+    const pages = pageTexts.map(pt => ({ pageNum: pt.pageNum, text: normalizeForSearch(pt.content) }));
+    const sample = this.sample(corrections.filter(c => !c.excluded && c.Page > 0));
+
+    const points: { reportPage: number; offset: number }[] = [];
+    for (const c of sample) {
+      const phrase = normalizeForSearch(c.ContextPhrase);
+      if (phrase.length < MIN_CONTEXT_LENGTH) continue;
+      const found = pages.filter(p => p.text.includes(phrase));
+      if (found.length === 1) points.push({ reportPage: c.Page, offset: found[0].pageNum - c.Page });
+    }
+    points.sort((a, b) => a.reportPage - b.reportPage);
+
+    if (points.length === 0) {
+      return { ranges: [], sampled: sample.length, located: 0, agreeing: 0 };
+    }
+
+    // Runs of pickups sharing an offset, in report page order
+    let runs: { firstPage: number; offset: number; count: number }[] = [];
+    for (const point of points) {
+      const last = runs[runs.length - 1];
+      if (last && last.offset === point.offset) {
+        last.count++;
+      } else {
+        runs.push({ firstPage: point.reportPage, offset: point.offset, count: 1 });
+      }
+    }
+
+    // A lone pickup disagreeing with its neighbours is more likely a repeated line than a real shift
+    if (points.length >= 5) {
+      const kept = runs.filter(run => run.count > 1);
+      if (kept.length > 0) runs = kept;
+    }
+    const merged: typeof runs = [];
+    for (const run of runs) {
+      const last = merged[merged.length - 1];
+      if (last && last.offset === run.offset) {
+        last.count += run.count;
+      } else {
+        merged.push({ ...run });
+      }
+    }
+
+    const ranges: OffsetRange[] = merged.map((run, i) => ({
+      fromPage: i === 0 ? 1 : run.firstPage,
+      toPage: i < merged.length - 1 ? merged[i + 1].firstPage - 1 : null,
+      offset: run.offset,
+    }));
+    const agreeing = points.filter(p => this.offsetFor(p.reportPage, 0, ranges) === p.offset).length;
+    return { ranges, sampled: sample.length, located: points.length, agreeing };
+  }
+
+  // A bare number or roman numeral on the top or bottom line of the page
+  private findFolio(items: PageTextItem[]): Folio | null {
+    const texts = items.filter(item => item.str.trim());
+    if (texts.length === 0) return null;
+    const top = Math.max(...texts.map(item => item.y));
+    const bottom = Math.min(...texts.map(item => item.y));
+    const edgeLines = [texts.filter(item => Math.abs(item.y - bottom) < 2), texts.filter(item => Math.abs(item.y - top) < 2)];
+
+    for (const line of edgeLines) {
+      for (const item of line) {
+        const text = item.str.trim().replace(/^(page|p\.)\s*/i, '').replace(/^[-–—\s]+|[-–—\s]+$/g, '');
+        if (/^\d{1,4}$/.test(text)) {
+          return { kind: 'arabic', value: parseInt(text, 10), upper: false };
+        }
+        const roman = this.romanToNumber(text);
+        if (roman !== null) {
+          return { kind: 'roman', value: roman, upper: text === text.toUpperCase() };
+        }
+      }
+    }
+    return null;
+  }
+
+  private formatFolio(folio: Folio): string {
+    if (folio.kind === 'arabic') return String(folio.value);
+    const roman = this.numberToRoman(folio.value);
+    return folio.upper ? roman.toUpperCase() : roman;
+  }
+
+  private romanToNumber(text: string): number | null {
+    if (!/^[ivxlcdm]{1,8}$/i.test(text)) return null;
+    let rest = text.toLowerCase();
+    let value = 0;
+    for (const [numeral, amount] of ROMAN_NUMERALS) {
+      while (rest.startsWith(numeral)) {
+        value += amount;
+        rest = rest.slice(numeral.length);
+      }
+    }
+    // Reject strings like "iiii" or "vx" that don't round-trip
+    return rest === '' && value > 0 && this.numberToRoman(value) === text.toLowerCase() ? value : null;
+  }
+
+  private numberToRoman(value: number): string {
+    let roman = '';
+    for (const [numeral, amount] of ROMAN_NUMERALS) {
+      while (value >= amount) {
+        roman += numeral;
+        value -= amount;
+      }
+    }
+    return roman;
+  }
+
+  // Spread the sample across the whole report so later shifts aren't missed
+  private sample(corrections: Correction[]): Correction[] {
+    const sorted = [...corrections].sort((a, b) => a.Page - b.Page);
+    if (sorted.length <= MAX_SAMPLE) return sorted;
+    const step = sorted.length / MAX_SAMPLE;
+    return Array.from({ length: MAX_SAMPLE }, (_, i) => sorted[Math.floor(i * step)]);
+  }
+}
@@ -1,9 +1,43 @@
-import { Injectable } from '@angular/core';
-import { Correction, PageText, PageTextItem } from '../models';
+import { Injectable, inject } from '@angular/core';
+import { CORRECTION_TYPES, Correction, CorrectionTypeInfo, FAR_PAGE_DISTANCE, ManualPlacement, MarkKind, MarkOutput, MarkStyle, NotesStyle, PageMapping, PageText, PageTextItem, PlacementConfidence, PlacementOccurrence, PlacementResult, PlacementStrategy, StyleTheme } from '../models';
+import { PhraseMatcherService } from './phrase-matcher.service';
+import { PageOffsetService } from './page-offset.service';
+import { LayoutService, TextBlock } from './layout.service';
+import { OcrService } from './ocr.service';
+import { AnnotationService, CommentDetails, Ellipse, Point, Quad } from './annotation.service';
+import { colorComponents } from './style-theme.service';
+import { FontService, FontStack } from './font.service';
+import { NormalizedText, compactAndMap, isWordCharacter, normalizeAndMap, normalizeForSearch } from '../text-normalization';
 
 declare var PDFLib: any;
 declare var pdfjsLib: any;
 
+export interface QCPackOptions {
+  pageMapping: PageMapping;
+  isAudible: boolean;
+  groupBySheet: boolean; // Head each page's notes with the workbook sheet they came from
+  matchThreshold: number; // 0–1; approximate matches scoring below this are left unplaced
+  searchRadius: number | null; // Pages either side of the reported page searched for a context phrase; null searches the whole script
+  markOutput: MarkOutput;
+  theme: StyleTheme; // Marks and notes colours, kinds and sizes
+  notesFont: ArrayBuffer | null; // A TrueType or OpenType font to write the notes in, ahead of the bundled one
+}
+
+// Page labels read from the script, and where they came from
+export interface PageLabels {
+  labels: (string | null)[]; // One per PDF page
+  source: 'pdf' | 'printed'; // The document's /PageLabels, or folios read from the page text
+}
+
+// A script page drawn to a canvas for manual placement; boxes are in canvas pixels, parallel to items
+export interface RenderedPage {
+  pageNum: number;
+  width: number;
+  height: number;
+  items: PageTextItem[];
+  boxes: { left: number; top: number; width: number; height: number; rotation: number }[];
+}
+
 interface UnderlineSegment {
   item: PageTextItem;
   itemIndex: number; // Added for compatibility
@@ -11,113 +45,206 @@ interface UnderlineSegment {
   endFrac: number;   // 0–1 within item.width
 }
 
+// A correction as drawn on one page. A match running over a page break is split, and the
+// page without the note marks its part as continuing from or onto the note's page.
+type PageCorrection = Correction & {
+  underlineSegments: UnderlineSegment[]; // The marked text: the matched phrase, or the sentences round an Audible pickup
+  oblongSegments: UnderlineSegment[]; // The words picked up within it
+  continuation?: 'before' | 'after';
+  notePage?: number; // The page with the note, on a continuation
+};
+
+// A place a context phrase was found; start/end are inclusive indexes into source.corpus
+interface Occurrence {
+  source: PageCorpus;
+  start: number;
+  end: number;
+  page: number; // Page the occurrence starts on
+  strategy: 'strict' | 'fuzzy' | 'approximate';
+  score: number;
+}
+
+interface RankedOccurrence {
+  occurrence: Occurrence;
+  hasOblong: boolean;
+  weightedScore: number; // Score less the distance penalty
+  pageRank: number;
+  outOfOrder: number;
+}
+
+const OBLONG_REACH = 40; // Characters either side of an occurrence searched for the words to circle
+const SNIPPET_REACH = 30;
+const DISTANCE_PENALTY = 0.05; // Score an occurrence gives up, when ranking, for each page it lies from the reported one
+const WIDER_SEARCH_PAGES = 10; // Pages beyond the reported one and its neighbours aligned against when it has no match
+
+// Reading-order text of one or more consecutive pages, with every character traced to its item
+interface PageCorpus {
+  corpus: string;
+  charMap: { itemIndex: number; charIndexInItem: number }[];
+  items: PageTextItem[];
+  itemPages: number[];
+  pageStarts: Map<number, number>; // Page number -> offset of its first character in corpus
+  searchForms?: { strict: NormalizedText; compact?: NormalizedText }; // Built on first search, as pages are searched for every pickup
+  words?: Set<string>; // Its distinct folded words, built when it is first weighed for a wider search
+}
+
+// Part of a page the notes box may go in, in PDF points
+interface NotesArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const NOTES_LEADING = 1.2; // Line spacing, as a multiple of the notes font size
+const NOTES_PADDING = 8;
+const NOTES_EDGE = 18; // Kept clear along the page edges
+const NOTES_CLEARANCE = 16; // Kept clear around the text, leaving room for margin brackets and oblongs
+const LEGEND_HEIGHT = 24; // Kept clear at the foot of the page for the legend
+const MIN_NOTES_WIDTH = 100;
+const NOTES_CONTINUED = '(continued on the next page)';
+
+// A line of the notes as drawn, for linking note entries to their badges
+interface NoteLine {
+  page: any;
+  text: string;
+  x: number;
+  y: number; // Baseline
+}
+
+// A pickup's numbered badge beside its marks
+interface Badge {
+  id: string;
+  rect: NotesArea;
+}
+
+const BADGE_FONT_SIZE = 7;
+const BADGE_HEIGHT = 10;
+const BADGE_GAP = 16; // From the column's left edge to the badge, clear of margin brackets and oblongs
+
+const MEASURE_SIZE = 100; // Font size characters are measured at on a canvas; only their proportions are used
+
 @Injectable({ providedIn: 'root' })
 export class PdfService {
+  private phraseMatcher: PhraseMatcherService = inject(PhraseMatcherService);
+  private pageOffsetService: PageOffsetService = inject(PageOffsetService);
+  private layout: LayoutService = inject(LayoutService);
+  private ocr: OcrService = inject(OcrService);
+  private annotations: AnnotationService = inject(AnnotationService);
+  private fonts: FontService = inject(FontService);
+  // Canvas-measured character widths by font family and character, kept across packs
+  private canvasWidths = new Map<string, Map<string, number>>();
+  private measuringCanvas: CanvasRenderingContext2D | null | undefined;
 
   async createQCPack(
     originalPdfBytes: ArrayBuffer,
     corrections: Correction[],
-    pageOffset: number,
-    isAudible: boolean
-  ): Promise<{ pdfBytes: Uint8Array; pageCount: number }> {
-    const { PDFDocument, rgb, StandardFonts, cmyk } = PDFLib;
+    options: QCPackOptions
+  ): Promise<{ pdfBytes: Uint8Array; pageCount: number; placements: PlacementResult[] }> {
+    const { PDFDocument, rgb, cmyk } = PDFLib;
+    const { pageMapping, isAudible, matchThreshold, searchRadius, markOutput, theme } = options;
 
     const originalPdfDoc = await PDFDocument.load(originalPdfBytes);
     const qcPackPdfDoc = await PDFDocument.create();
-    const pageTexts = await this.extractPdfTextWithItems(originalPdfBytes);
-
-    const correctionsByPage = new Map<number, (Correction & {
-      underlineSegments: UnderlineSegment[],
-      oblongSegments: UnderlineSegment[],
-    })[]>();
-
-    for (const corr of corrections) {
-      const mainPageNum = corr.Page + pageOffset;
+    // Kept open while placing, to measure the characters on the pages that get marks
+    const scriptDoc = await this.openDocument(originalPdfBytes);
+    const pageTexts = await this.extractTextFromDocument(scriptDoc);
+
+    const correctionsByPage = new Map<number, PageCorrection[]>();
+    const placements: PlacementResult[] = [];
+    const corpusCache = new Map<number, PageCorpus | null>();
+    const pageBreakCache = new Map<number, PageCorpus | null>();
+    const measuredPages = new Set<number>();
+
+    // Search everything up front, so a repeated phrase can be placed in order with the pickups around it
+    const mainPages = corrections.map(corr => this.pageOffsetService.pdfPageFor(corr, pageMapping));
+    const searches = corrections.map((corr, i) => corr.manualPlacement || mainPages[i] === null
+      ? null
+      : this.findOccurrences(corr.ContextPhrase, mainPages[i]!, pageTexts, corpusCache, pageBreakCache, matchThreshold, searchRadius));
+    const chosenPositions: (number | null)[] = corrections.map(() => null);
+
+    for (const [correctionIndex, corr] of corrections.entries()) {
+      const mainPageNum = mainPages[correctionIndex];
       let matchFound = false;
 
-      // For both Audible and non-Audible, we try to find the text first
-      let searchPages = [mainPageNum];
-      // Basic cross-page support (current, next, prev)
-      searchPages.push(mainPageNum + 1);
-      if (mainPageNum > 1) searchPages.push(mainPageNum - 1);
-
-      // We need to access pageTexts for these pages
-      const pagesData = searchPages.map(p => ({ pageNum: p, data: pageTexts.find(pt => pt.pageNum === p) })).filter(x => x.data);
-
-      let foundInPageNum = -1;
-      let matchIndices: { start: number; end: number } | null = null;
-      let corpusInfo: { corpus: string; charMap: any[] } | null = null;
-      let pageItems: PageTextItem[] = [];
-
-      // Try to find the phrase in the pages
-      for (const { pageNum, data } of pagesData) {
-        if (!data) continue;
-
-        // Flatten items
-        const items = this.groupItemsIntoLines(data.items).flat();
-
-        // Build corpus
-        let corpus = '';
-        const charMap: { itemIndex: number; charIndexInItem: number }[] = [];
-        items.forEach((item, itemIndex) => {
-          for (let i = 0; i < item.str.length; i++) {
-            corpus += item.str[i];
-            charMap.push({ itemIndex, charIndexInItem: i });
-          }
+      // A hand-picked selection replaces the search entirely
+      const manualItems = corr.manualPlacement ? pageTexts.find(pt => pt.pageNum === corr.manualPlacement!.pageNum)?.items : undefined;
+      if (corr.manualPlacement && manualItems) {
+        const { pageNum, text } = corr.manualPlacement;
+        await this.measurePages(scriptDoc, [pageNum], pageTexts, measuredPages);
+        const segments = this.manualSegments(corr.manualPlacement, manualItems);
+        placements.push({
+          correctionIndex,
+          correctionId: corr.Id,
+          requestedPage: mainPageNum,
+          placedPage: pageNum,
+          strategy: 'manual',
+          confidence: 'high',
+          score: 1,
+          matchedText: text,
+        });
+        if (!correctionsByPage.has(pageNum)) correctionsByPage.set(pageNum, []);
+        correctionsByPage.get(pageNum)!.push({
+          ...corr,
+          underlineSegments: segments,
+          // In Audible packs the selection is both the sentences and the words; standard packs circle the oblong words inside it
+          oblongSegments: isAudible ? segments : this.oblongSegmentsFor(corr, segments, matchThreshold),
         });
+        continue;
+      }
 
-        const normalizedSearch = this.normalizeForSearch(corr.ContextPhrase);
-        const { normalizedText: normalizedCorpus, originalIndices } = this.normalizeAndMap(corpus);
-
-        // 1. Strict
-        let matchIndex = normalizedCorpus.indexOf(normalizedSearch);
-        let matchedLength = normalizedSearch.length;
-        let indicesToMap = originalIndices;
-
-        // 2. Fuzzy
-        if (matchIndex === -1) {
-          const aggressiveNormalize = (s: string) => {
-            let n = '';
-            const idxs: number[] = [];
-            for (let i = 0; i < s.length; i++) {
-              if (/[a-z0-9]/i.test(s[i])) {
-                n += s[i].toLowerCase();
-                idxs.push(i);
-              }
-            }
-            return { text: n, indices: idxs };
-          };
-          const aggSearch = aggressiveNormalize(corr.ContextPhrase);
-          const aggCorpus = aggressiveNormalize(corpus); // Use raw corpus
-          const aggMatchIndex = aggCorpus.text.indexOf(aggSearch.text);
-          if (aggMatchIndex !== -1) {
-            matchIndex = aggCorpus.indices[aggMatchIndex];
-            // end index calculation
-            const aggMatchEnd = aggMatchIndex + aggSearch.text.length - 1;
-            const bufEnd = aggCorpus.indices[aggMatchEnd];
-
-            foundInPageNum = pageNum;
-            matchIndices = { start: matchIndex, end: bufEnd };
-            corpusInfo = { corpus, charMap };
-            pageItems = items;
-            break;
-          }
-        } else {
-          // Strict match found
-          foundInPageNum = pageNum;
-          const startI = indicesToMap[matchIndex];
-          const endI = indicesToMap[matchIndex + matchedLength - 1];
-          matchIndices = { start: startI, end: endI };
-          corpusInfo = { corpus, charMap };
-          pageItems = items;
-          break;
-        }
+      if (mainPageNum === null) {
+        console.warn(`Report page "${corr.PageLabel || corr.Page}" matches no page in the script; pickup #${corr.Id} is left out.`);
+        placements.push({
+          correctionIndex,
+          correctionId: corr.Id,
+          requestedPage: null,
+          placedPage: null,
+          strategy: 'unplaced',
+          confidence: 'none',
+          score: 0,
+          matchedText: '',
+        });
+        continue;
       }
 
-      if (foundInPageNum !== -1 && matchIndices && corpusInfo) {
+      const { occurrences, bestScore } = searches[correctionIndex]!;
+      const ranked = this.rankOccurrences(corr, occurrences, mainPageNum, correctionIndex, mainPages, searches, chosenPositions);
+      const chosen = ranked[0]?.occurrence;
+      const matchScore = chosen ? chosen.score : bestScore;
+
+      if (chosen) {
         matchFound = true;
-        const { start, end } = matchIndices!;
-        const { corpus, charMap } = corpusInfo!;
+        chosenPositions[correctionIndex] = this.occurrencePosition(chosen);
+        const { page: foundInPageNum, strategy: matchStrategy, source: matchSource } = chosen;
+
+        // Work on the found page and its neighbours, so marks and Audible sentences can run over a page break
+        await this.measurePages(scriptDoc, [foundInPageNum - 1, foundInPageNum, foundInPageNum + 1], pageTexts, measuredPages);
+        const nearby = this.stitchCorpora([foundInPageNum - 1, foundInPageNum, foundInPageNum + 1]
+          .map(p => this.pageCorpus(p, pageTexts, corpusCache))
+          .filter((part): part is PageCorpus => part !== null));
+        const shift = nearby.pageStarts.get(foundInPageNum)! - matchSource.pageStarts.get(foundInPageNum)!;
+        const start = chosen.start + shift;
+        const end = chosen.end + shift;
+        const { corpus, charMap, items: pageItems } = nearby;
+
+        const strategy: PlacementStrategy = foundInPageNum !== mainPageNum ? 'neighbor' : matchStrategy;
+        const pageDistance = Math.abs(foundInPageNum - mainPageNum);
+        placements.push({
+          correctionIndex,
+          correctionId: corr.Id,
+          requestedPage: mainPageNum,
+          placedPage: foundInPageNum,
+          strategy,
+          confidence: this.confidenceForPlacement(strategy, matchStrategy, matchScore, pageDistance),
+          score: matchScore,
+          matchedText: corpus.substring(start, end + 1),
+          pageDistance,
+          ...(ranked.length > 1 ? {
+            occurrences: ranked.map(r => this.toPlacementOccurrence(r.occurrence, pageTexts)),
+            ambiguous: this.sameRank(ranked[0], ranked[1]),
+          } : {}),
+        });
 
         if (isAudible) {
           // --- Audible Logic ---
@@ -132,12 +259,12 @@ export class PdfService {
 
           if (targetPhrase) {
             const contextStr = corpus.substring(start, end + 1);
-            const normTarget = this.normalizeForSearch(targetPhrase);
-            const { normalizedText: normContext, originalIndices: contextIndices } = this.normalizeAndMap(contextStr);
+            const normTarget = normalizeForSearch(targetPhrase);
+            const { normalizedText: normContext, originalIndices: contextIndices } = normalizeAndMap(contextStr);
 
             // Attempt to find whole-word match first
             const escapedTarget = normTarget.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-            const targetRegex = new RegExp(`\\b${escapedTarget}\\b`, 'i');
+            const targetRegex = new RegExp(`(?<![\\p{L}\\p{N}])${escapedTarget}(?![\\p{L}\\p{N}])`, 'u');
             const match = normContext.match(targetRegex);
 
             let localMatchIndex = -1;
@@ -164,7 +291,7 @@ export class PdfService {
           // 1. Expand (up to) 3 words: [Prev] [Target] [Next] (STAY WITHIN PUNCTUATION BOUNDARIES)
 
           // Helper to check if a character is a word character
-          const isWordChar = (char: string) => /[a-zA-Z0-9'’]/.test(char);
+          const isWordChar = (char: string) => isWordCharacter(char);
           // Characters that attached to words (should be underlined)
           const isAttachedPunctuation = (char: string) => /[.,!?;:"“”‘’()\[\]\-_]/.test(char);
           // Characters that act as boundaries (do NOT cross these for the 3-word expansion)
@@ -272,176 +399,80 @@ export class PdfService {
           // For simplicity, we define the range [prevSentStart, nextSentEnd]
           const sentenceSegments = this.mapRangeToItems(prevSentStart, nextSentEnd, charMap, pageItems);
 
-          if (!correctionsByPage.has(foundInPageNum)) correctionsByPage.set(foundInPageNum, []);
-
-          // We'll store:
-          // underlineSegments -> Used for Red Underline (3 words)
-          // oblongSegments -> Used for Yellow Highlight (3 sentences) (abusing the field, but we'll check isAudible in drawing loop)
-          correctionsByPage.get(foundInPageNum)!.push({
-            ...corr,
-            underlineSegments: threeWordSegments,
-            oblongSegments: sentenceSegments
-          });
+          // The sentences are the marked text and the three words the words picked up, as the theme draws them
+          this.addToPages(correctionsByPage, corr, foundInPageNum, nearby, sentenceSegments, threeWordSegments);
 
         } else {
           // --- Standard Logic ---
           const segments = this.mapRangeToItems(start, end, charMap, pageItems);
 
-          let oblongSegments: UnderlineSegment[] = [];
-          // ... (Copy existing oblong logic for standard) ...
-          if (corr.wordsForOblong && corr.wordsForOblong.length > 0 && segments.length > 0) {
-            const sentenceItems = segments.map(seg => seg.item);
-            let phrasesToFind: string[] = [];
-            if (corr.correctionType === 'inserted') {
-              phrasesToFind = corr.wordsForOblong;
-            } else {
-              phrasesToFind = [corr.wordsForOblong.join(' ')];
-            }
-            const allRanges = phrasesToFind.flatMap(phrase => this.findItemSegmentsForPhrase(phrase, sentenceItems) || []);
-            if (allRanges.length > 0) {
-              oblongSegments = allRanges.map(r => ({
-                item: sentenceItems[r.itemIndex], itemIndex: r.itemIndex, startFrac: r.startFrac, endFrac: r.endFrac,
-              }));
-            }
-          }
+          const oblongSegments = this.oblongSegmentsFor(corr, segments, matchThreshold);
 
-          if (!correctionsByPage.has(foundInPageNum)) correctionsByPage.set(foundInPageNum, []);
-          correctionsByPage.get(foundInPageNum)!.push({ ...corr, underlineSegments: segments, oblongSegments });
+          this.addToPages(correctionsByPage, corr, foundInPageNum, nearby, segments, oblongSegments);
         }
       }
 
-      // If no match found (or if Audible), add correction to main page without any segments.
+      // If no match found, add correction to main page without any segments.
       if (!matchFound) {
-        if (!isAudible) {
-          console.warn(`Could not find context phrase for correction on page ${mainPageNum}:`, corr.ContextPhrase);
-        }
+        console.warn(`Could not find context phrase for correction on page ${mainPageNum}:`, corr.ContextPhrase);
+        const pageExists = mainPageNum >= 1 && mainPageNum <= originalPdfDoc.getPageCount();
+        placements.push({
+          correctionIndex,
+          correctionId: corr.Id,
+          requestedPage: mainPageNum,
+          placedPage: pageExists ? mainPageNum : null,
+          strategy: 'unplaced',
+          confidence: 'none',
+          score: matchScore,
+          matchedText: '',
+        });
         if (!correctionsByPage.has(mainPageNum)) {
           correctionsByPage.set(mainPageNum, []);
         }
         correctionsByPage.get(mainPageNum)!.push({ ...corr, underlineSegments: [], oblongSegments: [] });
       }
     }
+    scriptDoc.destroy(); // Every marked page has been measured
 
 
     const pagesToInclude = Array.from(correctionsByPage.keys()).sort((a, b) => a - b);
-    const notesFont = await qcPackPdfDoc.embedFont(StandardFonts.Helvetica);
+    const notesFont = await this.fonts.embedStack(qcPackPdfDoc, options.notesFont);
 
     for (const pageNum of pagesToInclude) {
       const pageIndex = pageNum - 1;
       if (pageIndex < 0 || pageIndex >= originalPdfDoc.getPageCount()) continue;
 
       const [copiedPage] = await qcPackPdfDoc.copyPages(originalPdfDoc, [pageIndex]);
-      const correctionsForPage = correctionsByPage.get(pageNum)!;
-
-      for (const correction of correctionsForPage) {
-
-        if (isAudible) {
-          // --- DRAW AUDIBLE STYLE ---
-
-          // 1. Draw Yellow Highlight for Sentences (oblongSegments)
-          // We need to merge them into lines first
-          const sentenceLines = this.groupSegmentsIntoLines(correction.oblongSegments);
-          for (const line of sentenceLines) {
-            if (line.length === 0) continue;
-            const first = line[0];
-            const last = line[line.length - 1];
-            const startX = first.item.x + first.item.width * first.startFrac;
-            const endX = last.item.x + last.item.width * last.endFrac;
-            const y = first.item.y;
-            const height = first.item.height || 10;
-
-            copiedPage.drawRectangle({
-              x: startX,
-              y: y - 2, // slight padding
-              width: endX - startX,
-              height: height + 4,
-              color: rgb(1, 1, 0), // Yellow
-              opacity: 0.75,
-              blendMode: PDFLib.BlendMode.Multiply,
-            });
-          }
-
-          // 2. Draw Red Underline for Words (underlineSegments)
-          const segments = correction.underlineSegments;
-          if (false && segments.length > 0) {
-            // Sort by itemIndex to find the true start and end
-            const sortedSegs = [...segments].sort((a, b) => a.itemIndex - b.itemIndex);
-
-            for (let i = 0; i < sortedSegs.length; i++) {
-              const seg = sortedSegs[i];
-              const { item, startFrac, endFrac } = seg;
-              const clampedStart = Math.max(0, Math.min(1, startFrac));
-              const clampedEnd = Math.max(clampedStart, Math.min(1, endFrac));
-              if (clampedEnd <= clampedStart) continue;
-
-              const startX = item.x + item.width * clampedStart;
-              const endX = item.x + item.width * clampedEnd;
-
-              const padding = 0.1; // Minimal bleed to ensure no gaps, but not "way off"
-
-              // Only apply start padding to the very first segment in the run
-              const finalStartX = (i === 0) ? startX - padding : startX;
-              // Only apply end padding to the very last segment in the run
-              const finalEndX = (i === sortedSegs.length - 1) ? endX + padding : endX;
-
-              copiedPage.drawLine({
-                start: { x: finalStartX, y: item.y - 2 },
-                end: { x: finalEndX, y: item.y - 2 },
-                thickness: 0.5, color: rgb(1, 0, 0), // Red (Even thinner as requested)
-              });
-            }
-          }
-
-        } else {
-          // --- DRAW STANDARD STYLE ---
-          for (const seg of correction.underlineSegments) {
-            const { item, startFrac, endFrac } = seg;
-            const clampedStart = Math.max(0, Math.min(1, startFrac));
-            const clampedEnd = Math.max(clampedStart, Math.min(1, endFrac));
-            if (clampedEnd <= clampedStart) continue;
-
-            copiedPage.drawLine({
-              start: { x: item.x + item.width * clampedStart, y: item.y - 2 },
-              end: { x: item.x + item.width * clampedEnd, y: item.y - 2 },
-              thickness: 1, color: rgb(0, 0, 0),
-            });
-          }
+      const pageItems = pageTexts.find(pt => pt.pageNum === pageNum)?.items ?? [];
+      const blocks = this.layout.analyze(pageItems);
+      const correctionsForPage = this.inReadingOrder(correctionsByPage.get(pageNum)!, blocks);
+
+      for (const [noteIndex, correction] of correctionsForPage.entries()) {
+        if (markOutput === 'annotations') {
+          this.annotateCorrection(copiedPage, correction, blocks, noteIndex, theme, options.groupBySheet);
+          continue;
+        }
 
-          const oblongsToDraw = this.groupSegmentsIntoLines(correction.oblongSegments);
-          for (const lineOfSegments of oblongsToDraw) {
-            if (lineOfSegments.length === 0) continue;
-
-            const firstItem = lineOfSegments[0].item;
-            const lastItem = lineOfSegments[lineOfSegments.length - 1].item;
-
-            const x = firstItem.x + firstItem.width * lineOfSegments[0].startFrac;
-            const width = (lastItem.x + lastItem.width * lineOfSegments[lineOfSegments.length - 1].endFrac) - x;
-
-            const ellipseCenterX = x + width / 2;
-            const ellipseCenterY = firstItem.y + (firstItem.height * 0.45);
-            const ellipseXScale = width / 2 + 10;
-            const ellipseYScale = (firstItem.height * 0.5) + 2;
-
-            copiedPage.drawEllipse({
-              x: ellipseCenterX,
-              y: ellipseCenterY,
-              xScale: ellipseXScale,
-              yScale: ellipseYScale,
-              borderColor: rgb(0, 0, 0),
-              borderWidth: 1,
-            });
-          }
+        const { mark } = this.typeInfo(correction.correctionType);
+        const style = theme.marks[correction.correctionType];
+        // A bracket is the type's own mark, drawn in the margin whatever the text is marked with; it stands in for the underline
+        if (this.isBracket(mark) && style.enabled) {
+          this.drawMarginBracket(copiedPage, correction.underlineSegments, blocks, mark === 'double-bracket', style);
+        }
+        if (!this.isBracket(mark) || style.kind !== 'underline') {
+          this.drawMark(copiedPage, correction.underlineSegments, style, mark);
         }
+        this.drawMark(copiedPage, correction.oblongSegments, theme.words, 'underline');
       }
 
+      // A numbered badge beside each pickup's marks, matching the number its note is listed under
+      const badges = markOutput === 'drawn' ? this.drawBadges(copiedPage, correctionsForPage, blocks, notesFont, theme.notes) : [];
+
       // Notes box logic - Group identical notes
-      const groupedCorrections = new Map<string, (Correction & {
-        underlineSegments: UnderlineSegment[],
-        oblongSegments: UnderlineSegment[],
-      })[]>();
+      const groupedCorrections = new Map<string, PageCorrection[]>();
 
       for (const c of correctionsForPage) {
-        const noteKey = c.Notes.trim();
+        const noteKey = this.continuationNote(c);
         if (!groupedCorrections.has(noteKey)) {
           groupedCorrections.set(noteKey, []);
         }
@@ -449,21 +480,21 @@ export class PdfService {
       }
 
       const noteBlocks: string[] = [];
+      let currentSheet: string | undefined;
+
+      for (const [noteText, group] of this.orderNoteGroups(groupedCorrections, options.groupBySheet)) {
+        let block = `${this.noteLabel(group)}: ${noteText}`;
 
-      for (const [noteText, group] of groupedCorrections) {
-        let block = noteText;
+        const sheet = group[0].Sheet;
+        if (options.groupBySheet && sheet && sheet !== currentSheet) {
+          block = `[${sheet}]\n${block}`;
+          currentSheet = sheet;
+        }
 
-        if (!isAudible) {
+        // The timestamp belongs with the note on its own page
+        if (!isAudible && !group[0].continuation) {
           const timestamps = group
-            .map(c => {
-              const ts = this.formatTimestampForNote(c.Timestamp);
-              if (c.Track && ts) {
-                return `${c.Track}/${ts}`;
-              } else if (ts) {
-                return ts;
-              }
-              return '';
-            })
+            .map(c => this.trackTimestamp(c))
             .filter(s => s !== '');
 
           if (timestamps.length > 0) {
@@ -474,94 +505,879 @@ export class PdfService {
       }
 
       const allNotesForPage = noteBlocks.join('\n\n');
-      this.drawNotesBox(copiedPage, allNotesForPage, notesFont, rgb);
+      // Annotated packs carry the notes in the annotations instead
+      const placed = markOutput === 'drawn'
+        ? this.placeNotes(copiedPage, allNotesForPage, pageItems, badges.map(badge => badge.rect), notesFont, theme.notes)
+        : { rest: '', lines: [] };
+
+      // Only pages with the extended types get a legend; the classic underline/oblong needs none
+      const typesOnPage = CORRECTION_TYPES.filter(info => correctionsForPage.some(c => c.correctionType === info.type));
+      if (typesOnPage.some(info => !['misread', 'missing', 'inserted'].includes(info.type))) {
+        this.drawLegend(copiedPage, typesOnPage, theme, notesFont, rgb);
+      }
 
       qcPackPdfDoc.addPage(copiedPage);
+      const continued = this.addNotesPages(qcPackPdfDoc, placed.rest, pageNum, copiedPage.getSize(), notesFont, theme.notes);
+      this.linkBadges(copiedPage, badges, groupedCorrections, [...placed.lines, ...continued], notesFont, theme.notes.fontSize);
     }
 
     return {
       pdfBytes: await qcPackPdfDoc.save(),
-      pageCount: pagesToInclude.length,
+      pageCount: qcPackPdfDoc.getPageCount(),
+      placements,
     };
   }
 
-  private groupSegmentsIntoLines(segments: UnderlineSegment[]): UnderlineSegment[][] {
-    if (!segments || segments.length === 0) return [];
+  // "Track/mm:ss" for a note, or just the timestamp; empty when there is none
+  private trackTimestamp(c: Correction): string {
+    const ts = this.formatTimestampForNote(c.Timestamp);
+    if (c.Track && ts) {
+      return `${c.Track}/${ts}`;
+    } else if (ts) {
+      return ts;
+    }
+    return '';
+  }
 
-    const lines = new Map<number, UnderlineSegment[]>();
-    const Y_TOLERANCE = 5;
+  /**
+   * The correction as annotations: a note in the margin beside its first marked line, carrying the
+   * pickup ID, note, track and timestamp, with its marks grouped under it. Pickups with nothing
+   * marked on the page get their note stacked down the top left corner.
+   */
+  private annotateCorrection(page: any, correction: PageCorrection, blocks: TextBlock[], noteIndex: number, theme: StyleTheme, groupBySheet: boolean): void {
+    const info = this.typeInfo(correction.correctionType);
+    const contents = [this.continuationNote(correction)];
+    const when = this.trackTimestamp(correction);
+    if (when && !correction.continuation) contents.push(when);
+    if (groupBySheet && correction.Sheet) contents.unshift(`[${correction.Sheet}]`);
+    const details: CommentDetails = { author: `Pickup #${correction.Id}`, subject: info.label, contents: contents.join('\n') };
+
+    const first = correction.underlineSegments[0] ?? correction.oblongSegments[0];
+    let at: Point;
+    if (first) {
+      const angle = this.layout.angleOf(first.item);
+      const origin = this.layout.toFrame(first.item.x, first.item.y, angle);
+      const left = this.layout.blockOf(blocks, first.item)?.left ?? origin.u;
+      const corner = this.layout.fromFrame(left - 24, origin.v + (first.item.height || 10) + 4, angle);
+      at = { x: Math.max(2, corner.x), y: corner.y };
+    } else {
+      at = { x: 4, y: page.getSize().height - 4 - noteIndex * 24 };
+    }
+    const note = this.annotations.addNote(page, at, details);
 
-    segments.forEach(seg => {
-      let foundLine = false;
-      for (const y of lines.keys()) {
-        if (Math.abs(y - seg.item.y) < Y_TOLERANCE) {
-          lines.get(y)!.push(seg);
-          foundLine = true;
-          break;
+    const style = theme.marks[correction.correctionType];
+    if (this.isBracket(info.mark) && style.enabled) {
+      for (const path of this.bracketPaths(correction.underlineSegments, blocks, info.mark === 'double-bracket')) {
+        this.annotations.addPolyLine(page, path, style, note, details);
+      }
+    }
+    if (!this.isBracket(info.mark) || style.kind !== 'underline') {
+      this.annotateMark(page, correction.underlineSegments, style, info.mark, note, details);
+    }
+    this.annotateMark(page, correction.oblongSegments, theme.words, 'underline', note, details);
+  }
+
+  private annotateMark(page: any, segments: UnderlineSegment[], style: MarkStyle, pattern: MarkKind, note: any, details: CommentDetails): void {
+    if (!style.enabled || segments.length === 0) return;
+    switch (style.kind) {
+      case 'oblong':
+        for (const ellipse of this.oblongEllipses(segments, style.padding)) {
+          this.annotations.addCircle(page, ellipse, style, note, details);
         }
+        break;
+      case 'caret':
+        this.annotations.addCaret(page, this.caretPoints(segments, style.padding), style, note, details);
+        break;
+      default:
+        this.annotations.addTextMarkup(page, this.lineQuads(segments, style.kind === 'strike' ? 0 : style.padding), style.kind, pattern, style, note, details);
+    }
+  }
+
+  // Note text for the notes box; the other page of a split match points to the note instead of repeating it
+  private continuationNote(c: PageCorrection): string {
+    if (c.continuation === 'after') return `Continued from script page ${c.notePage}`;
+    if (c.continuation === 'before') return `Continues on script page ${c.notePage}`;
+    return c.Notes.trim();
+  }
+
+  /**
+   * Files a placed correction under every page its marks touch. The note's page keeps the note;
+   * the others get a continuation entry carrying only their part of the marks.
+   */
+  private addToPages(
+    correctionsByPage: Map<number, PageCorrection[]>,
+    corr: Correction,
+    notePage: number,
+    source: PageCorpus,
+    underlineSegments: UnderlineSegment[],
+    oblongSegments: UnderlineSegment[]
+  ): void {
+    const pageOfItem = new Map(source.items.map((item, i) => [item, source.itemPages[i]]));
+    const pageOf = (seg: UnderlineSegment) => pageOfItem.get(seg.item) ?? notePage;
+    const pages = new Set([notePage, ...underlineSegments.map(pageOf), ...oblongSegments.map(pageOf)]);
+
+    for (const pageNum of Array.from(pages).sort((a, b) => a - b)) {
+      if (!correctionsByPage.has(pageNum)) correctionsByPage.set(pageNum, []);
+      correctionsByPage.get(pageNum)!.push({
+        ...corr,
+        underlineSegments: underlineSegments.filter(seg => pageOf(seg) === pageNum),
+        oblongSegments: oblongSegments.filter(seg => pageOf(seg) === pageNum),
+        ...(pageNum === notePage ? {} : { continuation: pageNum > notePage ? 'after' as const : 'before' as const, notePage }),
+      });
+    }
+  }
+
+  // Corpus for a single page, built once per pack
+  private pageCorpus(pageNum: number, pageTexts: PageText[], cache: Map<number, PageCorpus | null>): PageCorpus | null {
+    if (cache.has(pageNum)) return cache.get(pageNum)!;
+    const data = pageTexts.find(pt => pt.pageNum === pageNum);
+    let page: PageCorpus | null = null;
+    if (data) {
+      const items = this.layout.readingOrder(data.items).flat();
+      let corpus = '';
+      const charMap: { itemIndex: number; charIndexInItem: number }[] = [];
+      items.forEach((item, itemIndex) => {
+        for (let i = 0; i < item.str.length; i++) {
+          corpus += item.str[i];
+          charMap.push({ itemIndex, charIndexInItem: i });
+        }
+      });
+      page = { corpus, charMap, items, itemPages: items.map(() => pageNum), pageStarts: new Map([[pageNum, 0]]) };
+    }
+    cache.set(pageNum, page);
+    return page;
+  }
+
+  // Joins consecutive pages into one corpus, separated by a space that belongs to no item
+  private stitchCorpora(parts: PageCorpus[]): PageCorpus {
+    if (parts.length === 1) return parts[0];
+    const stitched: PageCorpus = { corpus: '', charMap: [], items: [], itemPages: [], pageStarts: new Map() };
+    for (const part of parts) {
+      if (stitched.corpus) {
+        stitched.corpus += ' ';
+        stitched.charMap.push({ itemIndex: -1, charIndexInItem: 0 });
       }
-      if (!foundLine) {
-        lines.set(seg.item.y, [seg]);
+      const itemOffset = stitched.items.length;
+      for (const [pageNum, start] of part.pageStarts) {
+        stitched.pageStarts.set(pageNum, stitched.corpus.length + start);
       }
-    });
+      stitched.corpus += part.corpus;
+      stitched.charMap.push(...part.charMap.map(c => c.itemIndex === -1 ? c : { itemIndex: c.itemIndex + itemOffset, charIndexInItem: c.charIndexInItem }));
+      stitched.items.push(...part.items);
+      stitched.itemPages.push(...part.itemPages);
+    }
+    return stitched;
+  }
 
-    return Array.from(lines.values()).map(line => line.sort((a, b) => a.item.x - b.item.x));
+  // Page holding the given corpus character
+  private pageAt(source: PageCorpus, index: number): number {
+    let page = source.itemPages[0];
+    for (const [pageNum, start] of source.pageStarts) {
+      if (start <= index) page = pageNum;
+    }
+    return page;
   }
 
-  private drawNotesBox(page: any, text: string, font: any, rgb: any): void {
-    const { width, height } = page.getSize();
-    const topMargin = 25;
-    const leftMargin = 25;
-    const fontSize = 10;
-    const lineHeight = 12;
-    const maxWidth = width * 0.6;
-    const padding = 8;
-
-    // Helper to wrap text manually to avoid pdf-lib wrapping mismatch
-    const wrapText = (paragraph: string): string[] => {
-      const words = paragraph.split(' ');
-      let lines: string[] = [];
-      let currentLine = words[0];
-
-      for (let i = 1; i < words.length; i++) {
-        const word = words[i];
-        const testLine = currentLine + ' ' + word;
-        const width = font.widthOfTextAtSize(testLine, fontSize);
-        if (width <= maxWidth) {
-          currentLine = testLine;
-        } else {
-          lines.push(currentLine);
-          currentLine = word;
-        }
+  // The page and the next one joined, for phrases running over the break between them; built once per pack
+  private pageBreakCorpus(
+    firstPageNum: number,
+    pageTexts: PageText[],
+    cache: Map<number, PageCorpus | null>,
+    pageBreaks: Map<number, PageCorpus | null>
+  ): PageCorpus | null {
+    if (pageBreaks.has(firstPageNum)) return pageBreaks.get(firstPageNum)!;
+    const parts = [firstPageNum, firstPageNum + 1].map(p => this.pageCorpus(p, pageTexts, cache));
+    const pair = parts[0] && parts[1] ? this.stitchCorpora(parts as PageCorpus[]) : null;
+    pageBreaks.set(firstPageNum, pair);
+    return pair;
+  }
+
+  /**
+   * Every place the phrase turns up within the search radius of the requested page, including
+   * across page breaks. Exact (strict, then fuzzy) occurrences are preferred; when there are none
+   * on the requested page or its neighbours, the best approximate passages there are taken too, so
+   * ranking can weigh a close typo against an exact match pages away. Approximate passages are only
+   * looked for further out when there are none nearby, and then on the pages sharing the most words
+   * with the phrase.
+   */
+  private findOccurrences(
+    phrase: string,
+    mainPageNum: number,
+    pageTexts: PageText[],
+    cache: Map<number, PageCorpus | null>,
+    pageBreaks: Map<number, PageCorpus | null>,
+    matchThreshold: number,
+    searchRadius: number | null
+  ): { occurrences: Occurrence[]; bestScore: number } {
+    const occurrences: Occurrence[] = [];
+    const pages = this.searchPages(mainPageNum, searchRadius, pageTexts.length);
+
+    for (const pageNum of pages) {
+      const page = this.pageCorpus(pageNum, pageTexts, cache);
+      if (!page) continue;
+      for (const match of this.findExactMatches(phrase, page)) {
+        occurrences.push({ ...match, source: page, page: pageNum, score: 1 });
       }
-      lines.push(currentLine);
-      return lines;
+    }
+
+    // Across a page break: the phrase may start at the foot of one page and end at the top of the next
+    const inRadius = new Set(pages);
+    for (const first of pages) {
+      if (!inRadius.has(first + 1)) continue;
+      const pair = this.pageBreakCorpus(first, pageTexts, cache, pageBreaks);
+      if (!pair) continue;
+      for (const match of this.findExactMatches(phrase, pair)) {
+        const page = this.pageAt(pair, match.start);
+        if (page !== this.pageAt(pair, match.end)) occurrences.push({ ...match, source: pair, page, score: 1 });
+      }
+    }
+    if (occurrences.some(o => Math.abs(o.page - mainPageNum) <= 1)) return { occurrences, bestScore: 1 };
+
+    // Approximate: the alignments reaching the threshold over the requested page and its neighbours,
+    // then over the pages further out that share the most words with the phrase
+    let bestScore = occurrences.length > 0 ? 1 : 0;
+    const nearPages = pages.filter(p => Math.abs(p - mainPageNum) <= 1);
+    const parts = [...nearPages].sort((a, b) => a - b)
+      .map(p => this.pageCorpus(p, pageTexts, cache))
+      .filter((part): part is PageCorpus => part !== null);
+    let approximate = parts.length > 0 ? this.approximateOccurrences(phrase, this.stitchCorpora(parts), null) : [];
+    if (!approximate.some(o => o.score >= matchThreshold) && nearPages.length < pages.length) {
+      bestScore = Math.max(bestScore, approximate[0]?.score ?? 0);
+      // Each further page is aligned with the next, for passages running over the break, and keeps
+      // only the passages starting on it, so none is found twice
+      approximate = this.widerSearchPages(phrase, pages, nearPages, pageTexts, cache).flatMap(pageNum => {
+        const source = this.pageBreakCorpus(pageNum, pageTexts, cache, pageBreaks) ?? this.pageCorpus(pageNum, pageTexts, cache)!;
+        return this.approximateOccurrences(phrase, source, pageNum);
+      });
+    }
+    for (const occurrence of approximate) {
+      bestScore = Math.max(bestScore, occurrence.score);
+      if (occurrence.score >= matchThreshold) occurrences.push(occurrence);
+    }
+    return { occurrences, bestScore };
+  }
+
+  // The passages of the source the phrase aligns to, best first; only those starting on firstPage when it is given
+  private approximateOccurrences(phrase: string, source: PageCorpus, firstPage: number | null): Occurrence[] {
+    return this.phraseMatcher.findCandidates(phrase, source.corpus)
+      .map(candidate => ({
+        start: candidate.start, end: candidate.end, strategy: 'approximate' as const,
+        source, page: this.pageAt(source, candidate.start), score: candidate.score,
+      }))
+      .filter(occurrence => firstPage === null || occurrence.page === firstPage);
+  }
+
+  /**
+   * The searched pages beyond the requested one and its neighbours that share the most words with
+   * the phrase, at most WIDER_SEARCH_PAGES of them, so searching the whole script aligns the phrase
+   * against a few likely pages rather than the book.
+   */
+  private widerSearchPages(
+    phrase: string,
+    pages: number[],
+    nearPages: number[],
+    pageTexts: PageText[],
+    cache: Map<number, PageCorpus | null>
+  ): number[] {
+    const phraseWords = new Set(normalizeForSearch(phrase).split(' ').filter(Boolean));
+    const shared: { pageNum: number; count: number }[] = [];
+    for (const pageNum of pages) {
+      if (nearPages.includes(pageNum)) continue;
+      const page = this.pageCorpus(pageNum, pageTexts, cache);
+      if (!page) continue;
+      page.words ??= new Set(normalizeForSearch(page.corpus).split(' '));
+      let count = 0;
+      for (const word of phraseWords) if (page.words.has(word)) count++;
+      if (count > 0) shared.push({ pageNum, count });
+    }
+    // Stable, so pages sharing as many words keep their search order
+    return shared.sort((a, b) => b.count - a.count).slice(0, WIDER_SEARCH_PAGES).map(s => s.pageNum);
+  }
+
+  // Requested page first, then outwards, the next page before the previous one at each distance
+  private searchPages(mainPageNum: number, searchRadius: number | null, pageCount: number): number[] {
+    const pages = [mainPageNum];
+    for (let distance = 1; distance <= (searchRadius ?? pageCount); distance++) {
+      if (mainPageNum + distance <= pageCount) pages.push(mainPageNum + distance);
+      if (mainPageNum - distance >= 1) pages.push(mainPageNum - distance);
+    }
+    return pages;
+  }
+
+  // Where the page comes in searchPages order
+  private pageRank(pageNum: number, mainPageNum: number): number {
+    const distance = Math.abs(pageNum - mainPageNum);
+    return pageNum > mainPageNum ? 2 * distance - 1 : 2 * distance;
+  }
+
+  /**
+   * Orders the occurrences of a pickup's phrase, best first: one with the words to circle nearby,
+   * then the highest score once each page away from the one reported has cost DISTANCE_PENALTY,
+   * then one that keeps the pickups on that page in report order (after the previous pickup's
+   * placement, before the next one's), then the page searched first, then the first on the page.
+   */
+  private rankOccurrences(
+    corr: Correction,
+    occurrences: Occurrence[],
+    mainPageNum: number,
+    correctionIndex: number,
+    mainPages: (number | null)[],
+    searches: ({ occurrences: Occurrence[] } | null)[],
+    chosenPositions: (number | null)[]
+  ): RankedOccurrence[] {
+    if (occurrences.length <= 1) {
+      return occurrences.map(occurrence => ({ occurrence, hasOblong: true, weightedScore: occurrence.score, pageRank: 0, outOfOrder: 0 }));
+    }
+
+    // Earlier pickups are already placed; of later ones, only those found exactly once can be relied on
+    let previous: number | null = null;
+    for (let j = correctionIndex - 1; j >= 0 && previous === null; j--) {
+      if (mainPages[j] === mainPageNum) previous = chosenPositions[j];
+    }
+    let next: number | null = null;
+    for (let j = correctionIndex + 1; j < mainPages.length && next === null; j++) {
+      const later = searches[j]?.occurrences;
+      if (mainPages[j] === mainPageNum && later?.length === 1) next = this.occurrencePosition(later[0]);
+    }
+
+    const words = corr.wordsForOblong ?? [];
+    const oblongPhrases = (corr.correctionType === 'inserted' ? words : [words.join(' ')])
+      .map(phrase => normalizeForSearch(phrase))
+      .filter(Boolean);
+
+    return occurrences
+      .map(occurrence => {
+        const position = this.occurrencePosition(occurrence);
+        const nearby = normalizeForSearch(occurrence.source.corpus.substring(Math.max(0, occurrence.start - OBLONG_REACH), occurrence.end + 1 + OBLONG_REACH));
+        return {
+          occurrence,
+          hasOblong: oblongPhrases.every(phrase => nearby.includes(phrase)),
+          weightedScore: occurrence.score - DISTANCE_PENALTY * Math.abs(occurrence.page - mainPageNum),
+          pageRank: this.pageRank(occurrence.page, mainPageNum),
+          outOfOrder: (previous !== null && position < previous ? 1 : 0) + (next !== null && position > next ? 1 : 0),
+        };
+      })
+      .sort((a, b) =>
+        Number(b.hasOblong) - Number(a.hasOblong) ||
+        b.weightedScore - a.weightedScore ||
+        a.outOfOrder - b.outOfOrder ||
+        a.pageRank - b.pageRank ||
+        this.occurrencePosition(a.occurrence) - this.occurrencePosition(b.occurrence));
+  }
+
+  // Nothing but the position on the page tells these two apart
+  private sameRank(a: RankedOccurrence, b: RankedOccurrence): boolean {
+    return a.hasOblong === b.hasOblong && a.weightedScore === b.weightedScore && a.outOfOrder === b.outOfOrder && a.pageRank === b.pageRank;
+  }
+
+  // Comparable across pages: page first, then offset within the page's reading order
+  private occurrencePosition(occurrence: Occurrence): number {
+    return occurrence.page * 1e7 + occurrence.start - occurrence.source.pageStarts.get(occurrence.page)!;
+  }
+
+  // An occurrence the user can pick in the placement report, pinned like a hand placement
+  private toPlacementOccurrence(occurrence: Occurrence, pageTexts: PageText[]): PlacementOccurrence {
+    const { source, start, end, page } = occurrence;
+    const pageItems = pageTexts.find(pt => pt.pageNum === page)?.items ?? [];
+    const segments = this.mapRangeToItems(start, end, source.charMap, source.items)
+      .map(seg => ({ itemIndex: pageItems.indexOf(seg.item), startFrac: seg.startFrac, endFrac: seg.endFrac }))
+      .filter(seg => seg.itemIndex !== -1);
+    const before = source.corpus.substring(Math.max(0, start - SNIPPET_REACH), start);
+    const after = source.corpus.substring(end + 1, end + 1 + SNIPPET_REACH);
+    return {
+      pageNum: page,
+      snippet: `…${before}[${source.corpus.substring(start, end + 1)}]${after}…`,
+      placement: { pageNum: page, segments, text: source.corpus.substring(start, end + 1) },
     };
+  }
+
+  // Strict (normalized) then fuzzy (letters and digits only) search for every non-overlapping
+  // occurrence; indexes are inclusive, into source.corpus
+  private findExactMatches(phrase: string, source: PageCorpus): { start: number; end: number; strategy: 'strict' | 'fuzzy' }[] {
+    const normalizedSearch = normalizeForSearch(phrase);
+    if (!normalizedSearch) return [];
+
+    source.searchForms ??= { strict: normalizeAndMap(source.corpus) };
+    const strict = source.searchForms.strict;
+    const matches: { start: number; end: number; strategy: 'strict' | 'fuzzy' }[] = [];
+    for (let at = strict.normalizedText.indexOf(normalizedSearch); at !== -1; at = strict.normalizedText.indexOf(normalizedSearch, at + normalizedSearch.length)) {
+      matches.push({ start: strict.originalIndices[at], end: strict.originalIndices[at + normalizedSearch.length - 1], strategy: 'strict' });
+    }
+    if (matches.length > 0) return matches;
+
+    const aggSearch = compactAndMap(phrase).normalizedText;
+    if (!aggSearch) return [];
+    const aggCorpus = source.searchForms.compact ??= compactAndMap(source.corpus);
+    for (let at = aggCorpus.normalizedText.indexOf(aggSearch); at !== -1; at = aggCorpus.normalizedText.indexOf(aggSearch, at + aggSearch.length)) {
+      matches.push({ start: aggCorpus.originalIndices[at], end: aggCorpus.originalIndices[at + aggSearch.length - 1], strategy: 'fuzzy' });
+    }
+    return matches;
+  }
+
+  private orderNoteGroups<T extends Correction>(groups: Map<string, T[]>, groupBySheet: boolean): [string, T[]][] {
+    const entries = Array.from(groups.entries());
+    if (!groupBySheet) return entries;
+
+    // Identical notes are only merged within a sheet, so split each group by sheet before ordering
+    const bySheet = new Map<string, [string, T[]][]>();
+    for (const [noteText, group] of entries) {
+      const sheets = new Map<string, T[]>();
+      for (const c of group) {
+        const sheet = c.Sheet ?? '';
+        if (!sheets.has(sheet)) sheets.set(sheet, []);
+        sheets.get(sheet)!.push(c);
+      }
+      for (const [sheet, sheetGroup] of sheets) {
+        if (!bySheet.has(sheet)) bySheet.set(sheet, []);
+        bySheet.get(sheet)!.push([noteText, sheetGroup]);
+      }
+    }
+    return Array.from(bySheet.values()).flat();
+  }
+
+  private oblongSegmentsFor(corr: Correction, segments: UnderlineSegment[], matchThreshold: number): UnderlineSegment[] {
+    if (!corr.wordsForOblong || corr.wordsForOblong.length === 0 || segments.length === 0) return [];
+
+    const sentenceItems = segments.map(seg => seg.item);
+    let phrasesToFind: string[] = [];
+    if (corr.correctionType === 'inserted') {
+      phrasesToFind = corr.wordsForOblong;
+    } else {
+      phrasesToFind = [corr.wordsForOblong.join(' ')];
+    }
+    const allRanges = phrasesToFind.flatMap(phrase => this.findItemSegmentsForPhrase(phrase, sentenceItems, matchThreshold) || []);
+    return allRanges.map(r => ({
+      item: sentenceItems[r.itemIndex], itemIndex: r.itemIndex, startFrac: r.startFrac, endFrac: r.endFrac,
+    }));
+  }
+
+  private manualSegments(placement: ManualPlacement, items: PageTextItem[]): UnderlineSegment[] {
+    return placement.segments
+      .filter(seg => items[seg.itemIndex])
+      .map(seg => ({ item: items[seg.itemIndex], itemIndex: seg.itemIndex, startFrac: seg.startFrac, endFrac: seg.endFrac }));
+  }
+
+  private confidenceForPlacement(strategy: PlacementStrategy, matchStrategy: 'strict' | 'fuzzy' | 'approximate', score: number, pageDistance = 0): PlacementConfidence {
+    if (strategy === 'unplaced') return 'none';
+    if (strategy === 'neighbor') return matchStrategy === 'strict' && pageDistance < FAR_PAGE_DISTANCE ? 'medium' : 'low';
+    if (matchStrategy === 'approximate') return score >= 0.9 ? 'medium' : 'low';
+    return matchStrategy === 'strict' ? 'high' : 'medium';
+  }
+
+  private typeInfo(type: Correction['correctionType']): CorrectionTypeInfo {
+    return CORRECTION_TYPES.find(info => info.type === type) ?? CORRECTION_TYPES[0];
+  }
+
+  private isBracket(mark: MarkKind): boolean {
+    return mark === 'bracket' || mark === 'double-bracket';
+  }
+
+  private color(hex: string): any {
+    return PDFLib.rgb(...colorComponents(hex));
+  }
+
+  // Draws one mark of the theme over the segments; underlines take the type's line style
+  private drawMark(page: any, segments: UnderlineSegment[], style: MarkStyle, pattern: MarkKind): void {
+    if (!style.enabled || segments.length === 0) return;
+    const color = this.color(style.color);
+    switch (style.kind) {
+      case 'highlight':
+        for (const line of this.groupSegmentsIntoLines(segments)) {
+          if (line.length === 0) continue;
+          const { length, angle } = this.lineExtent(line);
+          const corner = this.layout.pointAlong(line[0].item, line[0].startFrac, -style.padding);
+          page.drawRectangle({
+            x: corner.x,
+            y: corner.y,
+            width: length,
+            height: (line[0].item.height || 10) + 2 * style.padding,
+            rotate: PDFLib.degrees(angle * 180 / Math.PI),
+            color,
+            opacity: style.opacity,
+            blendMode: PDFLib.BlendMode.Multiply,
+          });
+        }
+        break;
+      case 'oblong':
+        for (const { center, xScale, yScale, angle } of this.oblongEllipses(segments, style.padding)) {
+          page.drawEllipse({
+            x: center.x,
+            y: center.y,
+            xScale,
+            yScale,
+            rotate: PDFLib.degrees(angle * 180 / Math.PI),
+            borderColor: color,
+            borderWidth: style.thickness,
+            borderOpacity: style.opacity,
+          });
+        }
+        break;
+      case 'strike':
+        for (const line of this.groupSegmentsIntoLines(segments)) {
+          if (line.length === 0) continue;
+          const { length, angle } = this.lineExtent(line);
+          const start = this.layout.pointAlong(line[0].item, line[0].startFrac, (line[0].item.height || 10) * 0.3);
+          this.drawMarkLine(page, start.x, start.x + length, start.y, 'underline', style, angle);
+        }
+        break;
+      case 'caret': {
+        const [left, point, right] = this.caretPoints(segments, style.padding);
+        for (const [start, end] of [[left, point], [point, right]]) {
+          page.drawLine({ start, end, thickness: style.thickness, color, opacity: style.opacity });
+        }
+        break;
+      }
+      default:
+        this.drawUnderlineMark(page, segments, pattern, style);
+    }
+  }
+
+  private drawUnderlineMark(page: any, segments: UnderlineSegment[], pattern: MarkKind, style: MarkStyle): void {
+    if (pattern === 'underline' || this.isBracket(pattern)) {
+      for (const seg of segments) {
+        const { item, startFrac, endFrac } = seg;
+        const clampedStart = Math.max(0, Math.min(1, startFrac));
+        const clampedEnd = Math.max(clampedStart, Math.min(1, endFrac));
+        if (clampedEnd <= clampedStart) continue;
+
+        page.drawLine({
+          start: this.layout.pointAlong(item, clampedStart, -style.padding),
+          end: this.layout.pointAlong(item, clampedEnd, -style.padding),
+          thickness: style.thickness, color: this.color(style.color), opacity: style.opacity,
+        });
+      }
+      return;
+    }
+
+    // The other styles are drawn once per line so dashes and waves run continuously
+    for (const line of this.groupSegmentsIntoLines(segments)) {
+      if (line.length === 0) continue;
+      const { length, angle } = this.lineExtent(line);
+      if (length <= 0) continue;
+      const start = this.layout.pointAlong(line[0].item, line[0].startFrac, -style.padding);
+      this.drawMarkLine(page, start.x, start.x + length, start.y, pattern, style, angle);
+    }
+  }
+
+  // Drawn along the x axis from (startX, y), then turned by `angle` about that point for rotated text
+  private drawMarkLine(page: any, startX: number, endX: number, y: number, pattern: MarkKind, style: MarkStyle, angle = 0): void {
+    const line = { color: this.color(style.color), opacity: style.opacity };
+    const thickness = style.thickness;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const at = (px: number, py: number) => ({
+      x: startX + (px - startX) * cos - (py - y) * sin,
+      y: y + (px - startX) * sin + (py - y) * cos,
+    });
+    switch (pattern) {
+      case 'wavy': {
+        const amplitude = 1.2;
+        const halfWave = 2;
+        let x = startX;
+        let up = true;
+        while (x < endX) {
+          const nextX = Math.min(x + halfWave, endX);
+          page.drawLine({
+            start: at(x, up ? y - amplitude : y + amplitude),
+            end: at(nextX, up ? y + amplitude : y - amplitude),
+            thickness: 0.8 * thickness, ...line,
+          });
+          x = nextX;
+          up = !up;
+        }
+        break;
+      }
+      case 'dashed':
+        page.drawLine({ start: at(startX, y), end: at(endX, y), thickness, ...line, dashArray: [3, 2] });
+        break;
+      case 'dotted':
+        page.drawLine({ start: at(startX, y), end: at(endX, y), thickness, ...line, dashArray: [1, 1.5] });
+        break;
+      case 'double':
+        page.drawLine({ start: at(startX, y), end: at(endX, y), thickness: 0.7 * thickness, ...line });
+        page.drawLine({ start: at(startX, y - 1.8), end: at(endX, y - 1.8), thickness: 0.7 * thickness, ...line });
+        break;
+      default:
+        page.drawLine({ start: at(startX, y), end: at(endX, y), thickness, ...line });
+    }
+  }
+
+  private drawMarginBracket(page: any, segments: UnderlineSegment[], blocks: TextBlock[], double: boolean, style: MarkStyle): void {
+    for (const path of this.bracketPaths(segments, blocks, double)) {
+      for (let i = 1; i < path.length; i++) {
+        page.drawLine({ start: path[i - 1], end: path[i], thickness: style.thickness, color: this.color(style.color), opacity: style.opacity });
+      }
+    }
+  }
+
+  // One bracket per stroke (two when doubled) beside the left edge of the column the marked lines sit in,
+  // laid out in the text's own frame: top tick, top, bottom, bottom tick
+  private bracketPaths(segments: UnderlineSegment[], blocks: TextBlock[], double: boolean): Point[][] {
+    if (segments.length === 0) return [];
+
+    const angle = this.layout.angleOf(segments[0].item);
+    const framed = segments.map(seg => ({ ...this.layout.toFrame(seg.item.x, seg.item.y, angle), height: seg.item.height || 10 }));
+    const top = Math.max(...framed.map(f => f.v + f.height));
+    const bottom = Math.min(...framed.map(f => f.v)) - 2;
+    const columnLeft = this.layout.blockOf(blocks, segments[0].item)?.left ?? Math.min(...framed.map(f => f.u));
+    const offsets = double ? [10, 13] : [10];
+    const tick = 3;
+
+    return offsets.map(offset => {
+      const u = angle === 0 ? Math.max(4, columnLeft - offset) : columnLeft - offset;
+      const at = (pu: number, pv: number) => this.layout.fromFrame(pu, pv, angle);
+      return [at(u + tick, top), at(u, top), at(u, bottom), at(u + tick, bottom)];
+    });
+  }
+
+  // The oblong round each line of the words to circle, reaching `padding` beyond the ends of the words
+  private oblongEllipses(segments: UnderlineSegment[], padding: number): Ellipse[] {
+    return this.groupSegmentsIntoLines(segments)
+      .filter(line => line.length > 0)
+      .map(line => {
+        const firstItem = line[0].item;
+        const { start, length: width, angle } = this.lineExtent(line);
+        return {
+          center: this.layout.fromFrame(start.u + width / 2, start.v + (firstItem.height * 0.45), angle),
+          xScale: width / 2 + padding,
+          yScale: (firstItem.height * 0.5) + 2,
+          angle,
+        };
+      });
+  }
+
+  // Each line of segments as a quad from `padding` under the baseline to `padding` over the text
+  private lineQuads(segments: UnderlineSegment[], padding: number): Quad[] {
+    return this.groupSegmentsIntoLines(segments)
+      .filter(line => line.length > 0)
+      .map(line => {
+        const { start, length, angle } = this.lineExtent(line);
+        const height = line[0].item.height || 10;
+        const at = (u: number, v: number) => this.layout.fromFrame(u, v, angle);
+        const [bottom, top] = [start.v - padding, start.v + height + padding];
+        return [at(start.u, top), at(start.u + length, top), at(start.u, bottom), at(start.u + length, bottom)];
+      });
+  }
+
+  // A caret pointing up at the start of the marked words, `padding` under the baseline: left foot, point, right foot
+  private caretPoints(segments: UnderlineSegment[], padding: number): Point[] {
+    const first = segments[0];
+    const height = first.item.height || 10;
+    const angle = this.layout.angleOf(first.item);
+    const origin = this.layout.toFrame(first.item.x, first.item.y, angle);
+    const point = { u: origin.u + first.item.width * first.startFrac, v: origin.v - padding };
+    const [halfWidth, depth] = [height * 0.3, height * 0.45];
+    return [
+      this.layout.fromFrame(point.u - halfWidth, point.v - depth, angle),
+      this.layout.fromFrame(point.u, point.v, angle),
+      this.layout.fromFrame(point.u + halfWidth, point.v - depth, angle),
+    ];
+  }
+
+  private drawLegend(page: any, types: CorrectionTypeInfo[], theme: StyleTheme, font: FontStack, rgb: any): void {
+    const fontSize = 7;
+    const sampleWidth = 16;
+    const y = 12;
+    let x = 25;
+
+    this.fonts.drawText(page, font, 'Legend:', { x, y, size: fontSize, color: rgb(0.3, 0.3, 0.3) });
+    x += this.fonts.widthOfTextAtSize(font, 'Legend:', fontSize) + 6;
+
+    for (const info of types) {
+      const style = theme.marks[info.type];
+      if (style.enabled) this.drawLegendSample(page, x, y, sampleWidth, fontSize, info.mark, style);
+      x += sampleWidth + 3;
+
+      this.fonts.drawText(page, font, info.label, { x, y, size: fontSize, color: rgb(0.3, 0.3, 0.3) });
+      x += this.fonts.widthOfTextAtSize(font, info.label, fontSize) + 10;
+    }
+  }
+
+  // The type's mark in little, sitting on the legend's baseline
+  private drawLegendSample(page: any, x: number, y: number, width: number, fontSize: number, pattern: MarkKind, style: MarkStyle): void {
+    const stroke = { thickness: 0.8 * style.thickness, color: this.color(style.color), opacity: style.opacity };
+    // Brackets tell their types apart whatever else marks the text
+    if (this.isBracket(pattern)) {
+      const offsets = pattern === 'double-bracket' ? [0, 3] : [0];
+      for (const offset of offsets) {
+        page.drawLine({ start: { x: x + offset, y: y - 1 }, end: { x: x + offset, y: y + fontSize }, ...stroke });
+        page.drawLine({ start: { x: x + offset, y: y + fontSize }, end: { x: x + offset + 2.5, y: y + fontSize }, ...stroke });
+        page.drawLine({ start: { x: x + offset, y: y - 1 }, end: { x: x + offset + 2.5, y: y - 1 }, ...stroke });
+      }
+      return;
+    }
+    switch (style.kind) {
+      case 'highlight':
+        page.drawRectangle({ x, y: y - 1, width, height: fontSize + 2, color: stroke.color, opacity: style.opacity, blendMode: PDFLib.BlendMode.Multiply });
+        break;
+      case 'oblong':
+        page.drawEllipse({ x: x + width / 2, y: y + fontSize / 2 - 0.5, xScale: width / 2, yScale: fontSize / 2 + 1, borderColor: stroke.color, borderWidth: stroke.thickness, borderOpacity: style.opacity });
+        break;
+      case 'strike':
+        this.drawMarkLine(page, x, x + width, y + fontSize * 0.35, 'underline', style);
+        break;
+      case 'caret': {
+        const mid = x + width / 2;
+        page.drawLine({ start: { x: mid - 3, y: y - 1 }, end: { x: mid, y: y + fontSize - 2 }, ...stroke });
+        page.drawLine({ start: { x: mid, y: y + fontSize - 2 }, end: { x: mid + 3, y: y - 1 }, ...stroke });
+        break;
+      }
+      default:
+        this.drawMarkLine(page, x, x + width, y + 1, pattern, style);
+    }
+  }
+
+  // Segments sharing a baseline and not separated by a column gutter, each line in reading direction
+  private groupSegmentsIntoLines(segments: UnderlineSegment[]): UnderlineSegment[][] {
+    if (!segments || segments.length === 0) return [];
 
-    const paragraphs = text.split('\n');
-    const linesToDraw: string[] = [];
+    const along = (seg: UnderlineSegment) => this.layout.toFrame(seg.item.x, seg.item.y, this.layout.angleOf(seg.item)).u;
+    const sorted = [...segments].sort((a, b) => along(a) - along(b));
+    const lines: UnderlineSegment[][] = [];
 
-    paragraphs.forEach(paragraph => {
-      if (paragraph === '') {
-        linesToDraw.push('');
+    sorted.forEach(seg => {
+      const line = lines.find(l => {
+        const last = l[l.length - 1];
+        return this.layout.sameLine(last.item, seg.item) &&
+          !this.layout.isGutter(along(seg) + seg.item.width * seg.startFrac - (along(last) + last.item.width * last.endFrac), seg.item.height);
+      });
+      if (line) {
+        line.push(seg);
       } else {
-        const wrapped = wrapText(paragraph);
-        linesToDraw.push(...wrapped);
+        lines.push([seg]);
       }
     });
 
-    let textBlockHeight = linesToDraw.length * lineHeight;
+    return lines;
+  }
+
+  // Where a line of segments starts, in its own frame, and how far it runs along the baseline
+  private lineExtent(line: UnderlineSegment[]): { start: { u: number; v: number }; length: number; angle: number } {
+    const first = line[0];
+    const last = line[line.length - 1];
+    const angle = this.layout.angleOf(first.item);
+    const origin = this.layout.toFrame(first.item.x, first.item.y, angle);
+    const start = { u: origin.u + first.item.width * first.startFrac, v: origin.v };
+    const end = this.layout.toFrame(last.item.x, last.item.y, angle).u + last.item.width * last.endFrac;
+    return { start, length: end - start.u, angle };
+  }
+
+  /**
+   * Draws the notes in the free stretch of page that holds most of them: a band across the page or
+   * down it that no text (give or take room for the marks) runs into, so the box covers nothing.
+   * Returns the lines drawn and the notes that didn't fit, for a continuation page.
+   */
+  private placeNotes(page: any, text: string, items: PageTextItem[], obstacles: NotesArea[], font: FontStack, notes: NotesStyle): { rest: string; lines: NoteLine[] } {
+    let best: { area: NotesArea; lines: string[]; rest: string } | null = null;
+    for (const area of this.freeAreas(page, items, obstacles)) {
+      const fit = this.fitNotes(text, font, notes.fontSize, area);
+      const better = !best || fit.rest.length < best.rest.length ||
+        (fit.rest.length === best.rest.length && area.width * area.height > best.area.width * best.area.height);
+      if (better) best = { area, ...fit };
+    }
+    if (!best || best.lines.length === 0) return { rest: text, lines: [] };
+    return { rest: best.rest, lines: this.drawNotesBox(page, best.lines, best.area, font, notes) };
+  }
+
+  // Bands of the page clear of text and the given obstacles: across it between lines of text, and down it
+  // between columns and in the side margins
+  private freeAreas(page: any, items: PageTextItem[], obstacles: NotesArea[]): NotesArea[] {
+    const { width, height } = page.getSize();
+    const [left, right, bottom, top] = [NOTES_EDGE, width - NOTES_EDGE, LEGEND_HEIGHT, height - NOTES_EDGE];
+    const boxes = items.filter(item => item.str.trim() !== '').map(item => {
+      const h = item.height || 10;
+      const corners = [[0, -0.25 * h], [1, -0.25 * h], [0, h], [1, h]].map(([frac, rise]) => this.layout.pointAlong(item, frac, rise));
+      return {
+        x: [Math.min(...corners.map(c => c.x)) - NOTES_CLEARANCE, Math.max(...corners.map(c => c.x)) + NOTES_CLEARANCE] as [number, number],
+        y: [Math.min(...corners.map(c => c.y)) - NOTES_CLEARANCE, Math.max(...corners.map(c => c.y)) + NOTES_CLEARANCE] as [number, number],
+      };
+    });
+    for (const obstacle of obstacles) {
+      boxes.push({ x: [obstacle.x - 2, obstacle.x + obstacle.width + 2], y: [obstacle.y - 2, obstacle.y + obstacle.height + 2] });
+    }
+
+    const across = this.uncovered(boxes.map(box => box.y), bottom, top)
+      .map(([y0, y1]) => ({ x: left, y: y0, width: right - left, height: y1 - y0 }));
+    const down = this.uncovered(boxes.map(box => box.x), left, right)
+      .map(([x0, x1]) => ({ x: x0, y: bottom, width: x1 - x0, height: top - bottom }));
+    return [...across, ...down].filter(area => area.width >= MIN_NOTES_WIDTH);
+  }
+
+  // Stretches of [from, to] no interval covers
+  private uncovered(intervals: [number, number][], from: number, to: number): [number, number][] {
+    const gaps: [number, number][] = [];
+    let cursor = from;
+    for (const [start, end] of [...intervals].sort((a, b) => a[0] - b[0])) {
+      if (start >= to) break;
+      if (start > cursor) gaps.push([cursor, start]);
+      cursor = Math.max(cursor, end);
+    }
+    if (cursor < to) gaps.push([cursor, to]);
+    return gaps;
+  }
+
+  /**
+   * As many wrapped lines of the notes as the area holds. When they don't all fit, the last line
+   * says so and the rest is returned unwrapped, to be wrapped again at the continuation page's width.
+   */
+  private fitNotes(text: string, font: FontStack, fontSize: number, area: NotesArea): { lines: string[]; rest: string } {
+    const leading = fontSize * NOTES_LEADING;
+    const capacity = Math.floor((area.height - 2 * NOTES_PADDING + leading - fontSize) / leading);
+    const paragraphs = text.split('\n').map(paragraph =>
+      paragraph === '' ? [''] : this.wrapText(paragraph, font, fontSize, area.width - 2 * NOTES_PADDING));
+    if (paragraphs.reduce((count, lines) => count + lines.length, 0) <= capacity) {
+      return { lines: paragraphs.flat(), rest: '' };
+    }
+    if (capacity < 1) return { lines: [], rest: text };
+
+    const lines: string[] = [];
+    const rest: string[] = [];
+    for (const paragraph of paragraphs) {
+      const taken = Math.max(0, Math.min(paragraph.length, capacity - 1 - lines.length));
+      lines.push(...paragraph.slice(0, taken));
+      if (taken < paragraph.length) rest.push(paragraph.slice(taken).join(' '));
+    }
+    while (lines[lines.length - 1] === '') lines.pop();
+    while (rest[0] === '') rest.shift();
+    return { lines: [...lines, NOTES_CONTINUED], rest: rest.join('\n') };
+  }
+
+  // Wraps by measuring with the font, to avoid pdf-lib's own wrapping mismatching the box
+  private wrapText(paragraph: string, font: FontStack, fontSize: number, maxWidth: number): string[] {
+    const words = paragraph.split(' ');
+    const lines: string[] = [];
+    let currentLine = words[0];
+
+    for (let i = 1; i < words.length; i++) {
+      const testLine = currentLine + ' ' + words[i];
+      if (this.fonts.widthOfTextAtSize(font, testLine, fontSize) <= maxWidth) {
+        currentLine = testLine;
+      } else {
+        lines.push(currentLine);
+        currentLine = words[i];
+      }
+    }
+    lines.push(currentLine);
+    return lines;
+  }
+
+  // A white box hung from the top left of the area, just big enough for the lines; returns where each line went
+  private drawNotesBox(page: any, lines: string[], area: NotesArea, font: FontStack, notes: NotesStyle): NoteLine[] {
+    const { fontSize } = notes;
+    const leading = fontSize * NOTES_LEADING;
+    let textBlockHeight = lines.length * leading;
 
     // Adjust for the last line's leading to make padding even
-    if (linesToDraw.length > 0) {
-      textBlockHeight -= (lineHeight - fontSize);
+    if (lines.length > 0) {
+      textBlockHeight -= (leading - fontSize);
     }
 
-    const boxWidth = maxWidth + (padding * 2);
-    const boxHeight = textBlockHeight + (padding * 2);
+    const widest = Math.max(...lines.map(line => this.fonts.widthOfTextAtSize(font, line, fontSize)));
+    const boxWidth = Math.min(area.width, widest + (NOTES_PADDING * 2));
+    const boxHeight = textBlockHeight + (NOTES_PADDING * 2);
 
-    const boxX = leftMargin;
-    const boxY = height - topMargin - boxHeight;
+    const boxX = area.x;
+    const boxY = area.y + area.height - boxHeight;
 
     // Draw the box
     page.drawRectangle({
@@ -569,51 +1385,315 @@ export class PdfService {
       y: boxY,
       width: boxWidth,
       height: boxHeight,
-      color: rgb(1, 1, 1),
-      borderColor: rgb(0, 0, 0),
+      color: this.color(notes.backgroundColor),
+      borderColor: this.color(notes.borderColor),
       borderWidth: 1,
     });
 
     // Draw the text line by line
-    let currentY = boxY + boxHeight - padding - fontSize;
-    for (const line of linesToDraw) {
-      page.drawText(line, {
-        x: boxX + padding,
+    const drawn: NoteLine[] = [];
+    let currentY = boxY + boxHeight - NOTES_PADDING - fontSize;
+    for (const line of lines) {
+      this.fonts.drawText(page, font, line, {
+        x: boxX + NOTES_PADDING,
         y: currentY,
         size: fontSize,
-        font: font,
-        color: rgb(0, 0, 0),
+        color: this.color(notes.textColor),
       });
-      currentY -= lineHeight;
+      drawn.push({ page, text: line, x: boxX + NOTES_PADDING, y: currentY });
+      currentY -= leading;
+    }
+    return drawn;
+  }
+
+  // Pages of their own for the notes that didn't fit beside the script text, each the size of the script page
+  private addNotesPages(pdfDoc: any, text: string, pageNum: number, size: { width: number; height: number }, font: FontStack, notes: NotesStyle): NoteLine[] {
+    const heading = `Notes for script page ${pageNum}, continued`;
+    const headingSize = 12;
+    const area = {
+      x: NOTES_EDGE,
+      y: NOTES_EDGE,
+      width: size.width - 2 * NOTES_EDGE,
+      height: size.height - 2 * NOTES_EDGE - headingSize * 2,
+    };
+    const drawn: NoteLine[] = [];
+    while (text) {
+      const fit = this.fitNotes(text, font, notes.fontSize, area);
+      if (fit.lines.length === 0) break; // A page too small to hold even one line
+      const notesPage = pdfDoc.addPage([size.width, size.height]);
+      this.fonts.drawText(notesPage, font, heading, { x: NOTES_EDGE, y: size.height - NOTES_EDGE - headingSize, size: headingSize, color: this.color(notes.textColor) });
+      drawn.push(...this.drawNotesBox(notesPage, fit.lines, area, font, notes));
+      text = fit.rest;
     }
+    return drawn;
   }
 
-  private async extractPdfTextWithItems(pdfBytes: ArrayBuffer): Promise<PageText[]> {
-    const pdfDoc = await pdfjsLib.getDocument({ data: pdfBytes }).promise;
+  // The corrections in the order their marks are read on the page; those with nothing marked go last
+  private inReadingOrder(corrections: PageCorrection[], blocks: TextBlock[]): PageCorrection[] {
+    const order = blocks.flatMap(block => block.lines.flat());
+    const position = (c: PageCorrection) => {
+      const first = c.underlineSegments[0] ?? c.oblongSegments[0];
+      const index = first ? order.indexOf(first.item) : -1;
+      return index === -1 ? Number.MAX_SAFE_INTEGER : index + first!.startFrac;
+    };
+    return [...corrections].sort((a, b) => position(a) - position(b));
+  }
+
+  // "#3, #9" for a group of pickups sharing a note
+  private noteLabel(group: Correction[]): string {
+    return group.map(c => `#${c.Id}`).join(', ');
+  }
+
+  /**
+   * Draws a badge with the pickup ID in the margin beside the first marked line of each pickup,
+   * clear of the margin brackets; badges for pickups starting on the same line sit side by side.
+   */
+  private drawBadges(page: any, corrections: PageCorrection[], blocks: TextBlock[], font: FontStack, notes: NotesStyle): Badge[] {
+    const badges: Badge[] = [];
+    for (const correction of corrections) {
+      const first = correction.underlineSegments[0] ?? correction.oblongSegments[0];
+      if (!first) continue;
+
+      const label = `#${correction.Id}`;
+      const width = this.fonts.widthOfTextAtSize(font, label, BADGE_FONT_SIZE) + 4;
+      const angle = this.layout.angleOf(first.item);
+      const origin = this.layout.toFrame(first.item.x, first.item.y, angle);
+      const left = this.layout.blockOf(blocks, first.item)?.left ?? origin.u;
+      const anchor = this.layout.fromFrame(left - BADGE_GAP, origin.v, angle);
+      const rect = { x: anchor.x - width, y: anchor.y - 1.5, width, height: BADGE_HEIGHT };
+      for (let taken = badges.find(b => this.overlaps(b.rect, rect)); taken; taken = badges.find(b => this.overlaps(b.rect, rect))) {
+        rect.x = taken.rect.x - width - 2;
+      }
+      rect.x = Math.max(2, rect.x);
+
+      page.drawRectangle({ ...rect, color: this.color(notes.backgroundColor), borderColor: this.color(notes.borderColor), borderWidth: 0.8 });
+      this.fonts.drawText(page, font, label, { x: rect.x + 2, y: rect.y + 2.5, size: BADGE_FONT_SIZE, color: this.color(notes.textColor) });
+      badges.push({ id: correction.Id, rect });
+    }
+    return badges;
+  }
+
+  private overlaps(a: NotesArea, b: NotesArea): boolean {
+    return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+  }
+
+  // Links each badge to its pickup's entry in the notes, and the number in the entry back to the badge
+  private linkBadges(page: any, badges: Badge[], groups: Map<string, PageCorrection[]>, lines: NoteLine[], font: FontStack, fontSize: number): void {
+    for (const group of groups.values()) {
+      const label = this.noteLabel(group);
+      const entry = lines.find(line => line.text.startsWith(`${label}:`));
+      if (!entry) continue;
+      for (const [k, correction] of group.entries()) {
+        const badge = badges.find(b => b.id === correction.Id);
+        if (!badge) continue;
+        const prefix = this.fonts.widthOfTextAtSize(font, group.slice(0, k).map(c => `#${c.Id}, `).join(''), fontSize);
+        const tokenWidth = this.fonts.widthOfTextAtSize(font, `#${correction.Id}`, fontSize);
+        const { x, y, width, height } = badge.rect;
+        this.annotations.addLink(page, [x, y, x + width, y + height], entry.page, { x: entry.x - NOTES_PADDING, y: entry.y + fontSize + NOTES_PADDING });
+        this.annotations.addLink(entry.page, [entry.x + prefix, entry.y - 2, entry.x + prefix + tokenWidth, entry.y + fontSize], page, { x: x - 20, y: y + height + 20 });
+      }
+    }
+  }
+
+  async getPageCount(pdfBytes: ArrayBuffer): Promise<number> {
+    const pdfDoc = await PDFLib.PDFDocument.load(pdfBytes, { ignoreEncryption: true });
+    return pdfDoc.getPageCount();
+  }
+
+  /** Opens the script with pdf.js, for rendering pages one at a time. */
+  async openDocument(pdfBytes: ArrayBuffer): Promise<any> {
+    return pdfjsLib.getDocument({ data: pdfBytes }).promise;
+  }
+
+  async renderPage(pdfDoc: any, pageNum: number, canvas: HTMLCanvasElement, scale: number): Promise<RenderedPage> {
+    const page = await pdfDoc.getPage(pageNum);
+    const viewport = page.getViewport({ scale });
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+
+    const items = await this.pageTextItems(pdfDoc, page);
+    this.measureItems(items, await this.glyphWidths(page)); // Words are picked from this page to be marked
+    // Boxes are rotated about their baseline start, by the text's angle as it appears on screen
+    const boxes = items.map(item => {
+      const [left, baseline] = viewport.convertToViewportPoint(item.x, item.y);
+      const end = this.layout.pointAlong(item, 1);
+      const [endX, endY] = viewport.convertToViewportPoint(end.x, end.y);
+      const height = (item.height || 10) * scale;
+      const rotation = Math.atan2(endY - baseline, endX - left) * 180 / Math.PI;
+      return { left, top: baseline - height, width: Math.hypot(endX - left, endY - baseline), height, rotation };
+    });
+    return { pageNum, width: viewport.width, height: viewport.height, items, boxes };
+  }
+
+  /** The script's /PageLabels, falling back to the printed folios; null when neither is usable. */
+  async readPageLabels(pdfBytes: ArrayBuffer): Promise<PageLabels | null> {
+    const pdfDoc = await this.openDocument(pdfBytes);
+    const labels: string[] | null = await pdfDoc.getPageLabels();
+    if (labels && labels.some(label => label.trim())) {
+      return { labels: labels.map(label => label.trim() || null), source: 'pdf' };
+    }
+
+    const printed = this.pageOffsetService.detectPrintedLabels(await this.extractTextFromDocument(pdfDoc));
+    return printed ? { labels: printed, source: 'printed' } : null;
+  }
+
+  async extractPdfTextWithItems(pdfBytes: ArrayBuffer): Promise<PageText[]> {
+    const pdfDoc = await this.openDocument(pdfBytes);
+    return this.extractTextFromDocument(pdfDoc);
+  }
+
+  private async extractTextFromDocument(pdfDoc: any): Promise<PageText[]> {
     const pageTexts: PageText[] = [];
 
     for (let i = 1; i <= pdfDoc.numPages; i++) {
       const page = await pdfDoc.getPage(i);
-      const textContent = await page.getTextContent();
-
-      const items: PageTextItem[] = textContent.items.map((item: any) => ({
-        str: item.str,
-        x: item.transform[4],
-        y: item.transform[5],
-        width: item.width,
-        height: item.height,
-      }));
+      const items = await this.pageTextItems(pdfDoc, page);
 
-      const pageText = textContent.items.map((item: any) => item.str).join(' ');
+      const pageText = items.map(item => item.str).join(' ');
       pageTexts.push({ pageNum: i, content: pageText, items });
     }
 
     return pageTexts;
   }
 
+  // Manual placements store indexes into this list, so rendering and extraction must build it the same way.
+  // Scanned pages have no usable text layer and are read with OCR instead.
+  private async pageTextItems(pdfDoc: any, page: any): Promise<PageTextItem[]> {
+    const items = this.toPageTextItems(await page.getTextContent());
+    if (!this.ocr.needsOcr(items)) return items;
+    try {
+      return await this.ocr.recognizePage(pdfDoc, page);
+    } catch (error) {
+      console.warn(`OCR failed on page ${page.pageNumber}; using its text layer as it is.`, error);
+      return items;
+    }
+  }
+
+  /**
+   * Gives the items on these pages character offsets, so marks start and end on the words rather than
+   * at evenly spaced characters. Only pages that get marks are measured, each once.
+   */
+  private async measurePages(pdfDoc: any, pageNums: number[], pageTexts: PageText[], measured: Set<number>): Promise<void> {
+    for (const pageNum of pageNums) {
+      const items = pageTexts.find(pt => pt.pageNum === pageNum)?.items;
+      if (measured.has(pageNum) || !items?.some(item => item.fontName)) continue; // OCR text has no font to measure
+      measured.add(pageNum);
+      const page = await pdfDoc.getPage(pageNum);
+      this.measureItems(items, await this.glyphWidths(page));
+      page.cleanup(); // Drop the operator list read for the widths
+    }
+  }
+
+  private measureItems(items: PageTextItem[], glyphWidths: Map<string, Map<string, number>>): void {
+    for (const item of items) {
+      if (item.charOffsets || !item.fontName || item.str.length < 2) continue;
+      item.charOffsets = this.charOffsets(item.str, glyphWidths.get(item.fontName), item.fontFamily);
+    }
+  }
+
+  /**
+   * Advance widths of the characters each font on the page draws, in its glyph units, keyed by the
+   * font name pdf.js gives text items. They are read from the glyphs of the page's text operators,
+   * so only characters the page actually shows are known.
+   */
+  private async glyphWidths(page: any): Promise<Map<string, Map<string, number>>> {
+    const { fnArray, argsArray } = await page.getOperatorList();
+    const fonts = new Map<string, Map<string, number>>();
+    const saved: (Map<string, number> | undefined)[] = [];
+    let widths: Map<string, number> | undefined;
+    fnArray.forEach((fn: number, i: number) => {
+      switch (fn) {
+        case pdfjsLib.OPS.save:
+          saved.push(widths);
+          break;
+        case pdfjsLib.OPS.restore:
+          widths = saved.pop();
+          break;
+        case pdfjsLib.OPS.setFont: {
+          const name = argsArray[i][0];
+          if (!fonts.has(name)) fonts.set(name, new Map());
+          widths = fonts.get(name);
+          break;
+        }
+        case pdfjsLib.OPS.showText:
+          for (const glyph of argsArray[i][0]) {
+            // Numbers between the glyphs adjust the spacing
+            if (!widths || typeof glyph === 'number' || !glyph?.unicode || !(glyph.width > 0)) continue;
+            // Text content spells ligatures out, so their width is shared by the letters they stand for
+            const chars = Array.from((glyph.unicode as string).normalize('NFKC'));
+            for (const ch of chars) {
+              if (!widths.has(ch)) widths.set(ch, glyph.width / chars.length);
+            }
+          }
+          break;
+      }
+    });
+    return fonts;
+  }
+
+  /**
+   * Where each character starts as a fraction of the item's width, by its glyph's advance. Characters
+   * the page draws no glyph for, such as the spaces pdf.js puts between runs or text in a standard font
+   * the script doesn't embed, are measured on a canvas in the font family pdf.js reports, or else count
+   * as the font's average glyph. Undefined, for even spacing, when no width is known at all.
+   */
+  private charOffsets(str: string, glyphWidths: Map<string, number> | undefined, fontFamily: string | undefined): number[] | undefined {
+    const known = glyphWidths ? Array.from(glyphWidths.values()) : [];
+    const average = known.length ? known.reduce((sum, width) => sum + width, 0) / known.length : undefined;
+    const advances: number[] = [];
+    for (let i = 0; i < str.length;) {
+      const ch = String.fromCodePoint(str.codePointAt(i)!);
+      const width = glyphWidths?.get(ch) ?? this.canvasWidth(ch, fontFamily) ?? average;
+      if (width === undefined) return undefined;
+      advances.push(width);
+      if (ch.length === 2) advances.push(0); // The low surrogate takes no width of its own
+      i += ch.length;
+    }
+    const total = advances.reduce((sum, width) => sum + width, 0);
+    if (!(total > 0)) return undefined;
+    let run = 0;
+    return [0, ...advances.map(width => (run += width) / total)];
+  }
+
+  // A character's width in a font family, scaled to the thousandths of an em glyph widths are given in
+  private canvasWidth(ch: string, fontFamily: string | undefined): number | undefined {
+    const context = this.measuringContext();
+    if (!context || !fontFamily) return undefined;
+    let widths = this.canvasWidths.get(fontFamily);
+    if (!widths) this.canvasWidths.set(fontFamily, widths = new Map());
+    let width = widths.get(ch);
+    if (width === undefined) {
+      context.font = `${MEASURE_SIZE}px ${fontFamily}`;
+      widths.set(ch, width = context.measureText(ch).width * 1000 / MEASURE_SIZE);
+    }
+    return width;
+  }
+
+  private measuringContext(): CanvasRenderingContext2D | null {
+    if (this.measuringCanvas === undefined) {
+      this.measuringCanvas = typeof document === 'undefined' ? null : document.createElement('canvas').getContext('2d');
+    }
+    return this.measuringCanvas;
+  }
+
+  private toPageTextItems(textContent: any): PageTextItem[] {
+    return textContent.items.map((item: any) => ({
+      str: item.str,
+      fontName: item.fontName,
+      fontFamily: textContent.styles?.[item.fontName]?.fontFamily,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      height: item.height,
+      angle: Math.atan2(item.transform[1], item.transform[0]),
+    }));
+  }
+
   private findItemSegmentsForPhrase(
     textToFind: string,
-    pageItems: PageTextItem[]
+    pageItems: PageTextItem[],
+    matchThreshold = 1
   ): { itemIndex: number; startFrac: number; endFrac: number }[] | null {
     if (!textToFind || !pageItems || pageItems.length === 0) {
       return null;
@@ -631,8 +1711,8 @@ export class PdfService {
 
     // 2. Normalize both the corpus and the search phrase. Normalization involves collapsing whitespace
     // and removing characters that interfere with matching, while keeping track of indices.
-    const normalizedSearch = this.normalizeForSearch(textToFind);
-    const { normalizedText: normalizedCorpus, originalIndices } = this.normalizeAndMap(corpus);
+    const normalizedSearch = normalizeForSearch(textToFind);
+    const { normalizedText: normalizedCorpus, originalIndices } = normalizeAndMap(corpus);
 
     if (!normalizedSearch) return null;
 
@@ -643,32 +1723,20 @@ export class PdfService {
 
     // Attempt 2: Aggressive "Fuzzy" Search (Strip all non-alphanumeric)
     if (matchIndex === -1) {
-      const aggressiveNormalize = (s: string) => {
-        let n = '';
-        const idxs: number[] = [];
-        for (let i = 0; i < s.length; i++) {
-          if (/[a-z0-9]/i.test(s[i])) {
-            n += s[i].toLowerCase();
-            idxs.push(i);
-          }
-        }
-        return { text: n, indices: idxs };
-      };
+      const aggSearch = compactAndMap(textToFind).normalizedText;
+      const aggCorpus = compactAndMap(corpus);
 
-      const aggSearch = aggressiveNormalize(textToFind);
-      const aggCorpus = aggressiveNormalize(corpus);
-
-      const aggMatchIndex = aggCorpus.text.indexOf(aggSearch.text);
+      const aggMatchIndex = aggSearch ? aggCorpus.normalizedText.indexOf(aggSearch) : -1;
       if (aggMatchIndex !== -1) {
         // Found it with aggressive search!
         // We need to map the aggCorpus indices back to the original corpus indices.
-        // aggCorpus.indices[x] gives the index in 'corpus' where the x-th char of aggCorpus came from.
+        // aggCorpus.originalIndices[x] gives the index in 'corpus' where the x-th char of aggCorpus came from.
 
-        matchIndex = aggCorpus.indices[aggMatchIndex]; // Start index in original corpus
+        matchIndex = aggCorpus.originalIndices[aggMatchIndex]; // Start index in original corpus
 
         // For end index, we look at the last character of the match in aggCorpus
-        const aggMatchEndIndex = aggMatchIndex + aggSearch.text.length - 1;
-        const corpusEndIndex = aggCorpus.indices[aggMatchEndIndex];
+        const aggMatchEndIndex = aggMatchIndex + aggSearch.length - 1;
+        const corpusEndIndex = aggCorpus.originalIndices[aggMatchEndIndex];
 
         // We can't use 'originalIndices' map from Attempt 1 directly because that one included spaces/punctuation.
         // But we have mapped directly to 'corpus' indices now.
@@ -688,12 +1756,16 @@ export class PdfService {
       }
     }
 
-    if (matchIndex === -1) {
-      console.warn(`Could not find phrase on page (even with fuzzy search): "${textToFind}"`);
-      // console.log('Page text snippet:', normalizedCorpus.substring(0, 200) + '...');
-      return null;
+    // Attempt 3: Approximate word alignment, for typos in the note or the script
+    if (matchIndex === -1 && matchThreshold < 1) {
+      const candidate = this.phraseMatcher.findBest(textToFind, corpus, matchThreshold);
+      if (candidate) {
+        return this.mapRangeToItems(candidate.start, candidate.end, charMap, pageItems);
+      }
     }
 
+    if (matchIndex === -1) return null;
+
     // 4. Map the start and end of the match in the normalized corpus back to indices in the original corpus.
     // (This path is for Attempt 1)
     const matchEndIndex = matchIndex + matchedLength - 1;
@@ -725,14 +1797,13 @@ export class PdfService {
       }
     }
 
-    // 6. Convert the character ranges into fractional start/end positions for each item.
+    // 6. Convert the character ranges into fractional start/end positions for each item, by glyph width where known.
     const ranges = Array.from(perItem.entries()).map(([itemIndex, range]) => {
       const item = pageItems[itemIndex];
-      const itemLen = item.str.length || 1;
 
       // The end character is inclusive, so add 1 to get the exclusive end position for slicing.
-      const startFrac = range.start / itemLen;
-      const endFrac = (range.end + 1) / itemLen;
+      const startFrac = this.layout.fractionAt(item, range.start);
+      const endFrac = this.layout.fractionAt(item, range.end + 1);
 
       return {
         item,
@@ -745,7 +1816,8 @@ export class PdfService {
     return ranges;
   }
 
-  private groupItemsIntoLines(items: PageTextItem[]): PageTextItem[][] {
+  // Rows straight across the page, as the QC report's tables need; script text is read with LayoutService.readingOrder
+  groupItemsIntoLines(items: PageTextItem[]): PageTextItem[][] {
     if (!items || items.length === 0) return [];
 
     const lines = new Map<number, PageTextItem[]>();
@@ -778,94 +1850,6 @@ export class PdfService {
       .map(entry => entry[1].sort((a, b) => a.x - b.x));
   }
 
-  private normalizeAndMap(s: string): { normalizedText: string, originalIndices: number[] } {
-    if (!s) return { normalizedText: '', originalIndices: [] };
-
-    let normalized = '';
-    const indices: number[] = [];
-    let lastCharWasSpace = true;
-
-    for (let i = 0; i < s.length; i++) {
-      let char = s[i].toLowerCase();
-
-      // Handle ligatures
-      if (char === 'ﬁ') { char = 'fi'; }
-      else if (char === 'ﬂ') { char = 'fl'; }
-      // ... add other ligatures if needed
-
-      const isSpace = /\s/.test(char);
-
-      if (isSpace) {
-        if (!lastCharWasSpace) {
-          normalized += ' ';
-          indices.push(i);
-          lastCharWasSpace = true;
-        }
-      } else if (char === '-') {
-        // treat hyphen as a joining char (no space) logic
-        // only if it's strictly within a word (e.g. state-of-the-art) but in PDF extraction
-        // a hyphen at end of line often means word wrap.
-        // Simplified heuristic: Treat hyphen as nothing (join) if followed by letter, 
-        // OR treat as space if surrounded by spaces.
-
-        // For now, let's treat it as a space unless it looks like a line-break hyphen
-        // If we assume the PDF extraction already outputted the hyphen character, it's safer to 
-        // generally treat it as a valid character OR a space, but sticking to "replace with space"
-        // is often safer for "sentence search" unless it's a specific compound word.
-
-        // The previous logic was: if next is letter, join (soft hyphen).
-        // Let's refine: If current is hyphen, check next char.
-        if (i + 1 < s.length && /[a-z]/i.test(s[i + 1])) {
-          // hyphen then letter -> likely soft hyphen or compound word.
-          // We'll strip it to match "stateoftheart" style OR "disconnected" -> "disconnected"
-          // This helps if the search phrase is "disconnected" but PDF has "dis-connected"
-          lastCharWasSpace = false;
-        } else {
-          if (!lastCharWasSpace) {
-            normalized += ' ';
-            indices.push(i);
-            lastCharWasSpace = true;
-          }
-        }
-      } else if (/[a-z0-9']/.test(char) || /[‘’]/.test(char) || /[“”]/.test(char)) {
-        // Standardize quotes
-        if (/[‘’]/.test(char)) char = "'";
-        if (/[“”]/.test(char)) char = '"';
-
-        normalized += char;
-        indices.push(i);
-        lastCharWasSpace = false;
-      } else {
-        // Treat other punctuation as a potential space break
-        if (!lastCharWasSpace) {
-          normalized += ' ';
-          indices.push(i);
-          lastCharWasSpace = true;
-        }
-      }
-    }
-    return { normalizedText: normalized.trim(), originalIndices: indices };
-  }
-
-  private normalizeForSearch(s: string): string {
-    if (!s) return '';
-    return s
-      .toLowerCase()
-      // ligatures
-      .replace(/ﬁ/g, 'fi')
-      .replace(/ﬂ/g, 'fl')
-      .replace(/ﬀ/g, 'ff')
-      .replace(/ﬃ/g, 'ffi')
-      .replace(/ﬄ/g, 'ffl')
-      // quotes
-      .replace(/[‘’]/g, "'")
-      .replace(/[“”]/g, '"')
-      // keep letters, numbers, apostrophes, spaces
-      .replace(/[^a-z0-9'\s]+/g, ' ')
-      .replace(/\s+/g, ' ')
-      .trim();
-  }
-
   private formatTimestampForNote(timestamp: string | undefined): string {
     if (!timestamp) return '';
     const parts = timestamp.split(':');
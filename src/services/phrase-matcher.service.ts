@@ -0,0 +1,145 @@
+import { Injectable } from '@angular/core';
+import { normalizeAndMap } from '../text-normalization';
+
+// A span of the searched text that approximately matches the phrase; start/end are inclusive character indexes
+export interface MatchCandidate {
+  start: number;
+  end: number;
+  score: number; // 0–1, where 1 is every word matching exactly
+}
+
+interface Token {
+  text: string;
+  start: number;
+  end: number; // Exclusive
+}
+
+// Word-level edit costs. A swapped pair of words costs a little more than one missing word.
+const GAP_COST = 1;
+const TRANSPOSE_PENALTY = 0.5;
+
+@Injectable({ providedIn: 'root' })
+export class PhraseMatcherService {
+
+  /**
+   * Aligns the phrase against every position in the corpus at word level and returns the best
+   * non-overlapping spans, highest score first. Words are compared by character edit distance,
+   * so a typo costs part of a word, a missing or extra word costs one, and two swapped words
+   * cost just over one.
+   */
+  findCandidates(phrase: string, corpus: string, limit = 5): MatchCandidate[] {
+    const needle = this.tokenize(phrase);
+    const haystack = this.tokenize(corpus);
+    const m = needle.length;
+    const n = haystack.length;
+    if (m === 0 || n === 0) return [];
+
+    // cost[j]: cheapest alignment of the first i phrase words ending at corpus word j; origin[j]: the
+    // corpus word that alignment starts at. Only the last three rows are kept, as a swap reaches back
+    // two rows and the spans are read off the final one, so memory grows with the corpus alone.
+    let [before, previous, cost] = [0, 1, 2].map(() => new Float64Array(n + 1));
+    let [beforeOrigin, previousOrigin, origin] = [0, 1, 2].map(() => new Int32Array(n + 1));
+    const similarity = new Map<string, number>();
+    const sub = (i: number, j: number) => {
+      const a = needle[i].text;
+      const b = haystack[j].text;
+      const key = `${a}\u0000${b}`;
+      let value = similarity.get(key);
+      if (value === undefined) {
+        value = this.wordSimilarity(a, b);
+        similarity.set(key, value);
+      }
+      return 1 - value;
+    };
+
+    for (let j = 0; j <= n; j++) {
+      cost[j] = 0; // The match may start anywhere in the corpus
+      origin[j] = j;
+    }
+    for (let i = 1; i <= m; i++) {
+      [before, previous, cost] = [previous, cost, before];
+      [beforeOrigin, previousOrigin, origin] = [previousOrigin, origin, beforeOrigin];
+      cost[0] = i * GAP_COST;
+      origin[0] = 0;
+      for (let j = 1; j <= n; j++) {
+        let best = previous[j - 1] + sub(i - 1, j - 1);
+        let from = previousOrigin[j - 1];
+
+        if (previous[j] + GAP_COST < best) {
+          best = previous[j] + GAP_COST; // Phrase word missing from the corpus
+          from = previousOrigin[j];
+        }
+        if (cost[j - 1] + GAP_COST < best) {
+          best = cost[j - 1] + GAP_COST; // Extra word in the corpus
+          from = origin[j - 1];
+        }
+        if (i > 1 && j > 1) {
+          const swapped = before[j - 2] + sub(i - 1, j - 2) + sub(i - 2, j - 1) + TRANSPOSE_PENALTY;
+          if (swapped < best) {
+            best = swapped;
+            from = beforeOrigin[j - 2];
+          }
+        }
+
+        cost[j] = best;
+        origin[j] = from;
+      }
+    }
+
+    const ranked: { startToken: number; endToken: number; score: number }[] = [];
+    for (let j = 1; j <= n; j++) {
+      const score = Math.max(0, 1 - cost[j] / m);
+      if (score > 0 && origin[j] < j) ranked.push({ startToken: origin[j], endToken: j - 1, score });
+    }
+    ranked.sort((a, b) => b.score - a.score || a.startToken - b.startToken);
+
+    const candidates: MatchCandidate[] = [];
+    const taken: { startToken: number; endToken: number }[] = [];
+    for (const r of ranked) {
+      if (taken.some(t => r.startToken <= t.endToken && r.endToken >= t.startToken)) continue;
+      taken.push(r);
+      candidates.push({ start: haystack[r.startToken].start, end: haystack[r.endToken].end - 1, score: r.score });
+      if (candidates.length >= limit) break;
+    }
+    return candidates;
+  }
+
+  /** Best candidate, or null when nothing reaches the threshold. */
+  findBest(phrase: string, corpus: string, threshold: number): MatchCandidate | null {
+    const [best] = this.findCandidates(phrase, corpus, 1);
+    return best && best.score >= threshold ? best : null;
+  }
+
+  // 1 for identical words, falling towards 0 with character edits relative to the longer word
+  private wordSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+    const longest = Math.max(a.length, b.length);
+    if (Math.abs(a.length - b.length) >= longest) return 0;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, k) => k);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let k = 1; k <= b.length; k++) {
+        current[k] = Math.min(
+          previous[k] + 1,
+          current[k - 1] + 1,
+          previous[k - 1] + (a[i - 1] === b[k - 1] ? 0 : 1),
+        );
+      }
+      previous = current;
+    }
+    return 1 - previous[b.length] / longest;
+  }
+
+  private tokenize(s: string): Token[] {
+    const { normalizedText, originalIndices } = normalizeAndMap(s);
+    const tokens: Token[] = [];
+    for (const match of normalizedText.matchAll(/\S+/g)) {
+      const text = match[0].replace(/^'+|'+$/g, '');
+      if (!text) continue;
+      const last = originalIndices[match.index! + match[0].length - 1];
+      tokens.push({ text, start: originalIndices[match.index!], end: last + String.fromCodePoint(s.codePointAt(last)!).length });
+    }
+    return tokens;
+  }
+}
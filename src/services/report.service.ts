@@ -0,0 +1,37 @@
+import { Injectable } from '@angular/core';
+import { Correction, FAR_PAGE_DISTANCE, PlacementResult } from '../models';
+
+declare var Papa: any;
+
+@Injectable({ providedIn: 'root' })
+export class ReportService {
+
+  buildPlacementCsv(placements: PlacementResult[], corrections: Correction[]): string {
+    const rows = placements.map(p => {
+      const corr = corrections[p.correctionIndex];
+      return {
+        'Pickup ID': p.correctionId,
+        'Sheet': corr?.Sheet ?? '',
+        'Report Page': corr ? corr.PageLabel || corr.Page : '',
+        'Requested PDF Page': p.requestedPage ?? 'no such page',
+        'Placed PDF Page': p.placedPage ?? 'missing',
+        'Page Distance': p.pageDistance ?? '',
+        'Strategy': p.strategy,
+        'Confidence': p.confidence,
+        'Score': p.score.toFixed(2),
+        'Needs Check': this.needsManualCheck(p) ? 'yes' : 'no',
+        'Occurrences': p.occurrences?.length ?? '',
+        'Ambiguous': p.ambiguous ? 'yes' : 'no',
+        'Matched Text': p.matchedText,
+        'Type': corr ? corr.correctionType : '',
+        'Context Phrase': corr ? corr.ContextPhrase : '',
+        'Notes': corr ? corr.Notes : '',
+      };
+    });
+    return Papa.unparse(rows);
+  }
+
+  needsManualCheck(placement: PlacementResult): boolean {
+    return placement.confidence !== 'high' || !!placement.ambiguous || (placement.pageDistance ?? 0) >= FAR_PAGE_DISTANCE;
+  }
+}
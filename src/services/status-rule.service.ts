@@ -0,0 +1,82 @@
+import { Injectable, signal } from '@angular/core';
+import { StatusRule } from '../models';
+
+const STORAGE_KEY = 'qcPackGenerator.statusRules';
+
+const includeRule = (id: string, pattern: string, column = '*'): StatusRule =>
+  ({ id, column, match: 'contains', pattern, negate: false, action: 'include', enabled: true });
+
+export const DEFAULT_STATUS_RULES: StatusRule[] = [
+  // "Fixed", "Fixed in round 2", "Fixed - re-recorded", but not "Fix" or "Fixes needed"
+  { id: 'exclude-fixed', column: '*', match: 'regex', pattern: '^\\s*fixed\\b', negate: false, action: 'exclude', enabled: true },
+  { id: 'exclude-no-fix-needed', column: '*', match: 'contains', pattern: 'no fix needed', negate: false, action: 'exclude', enabled: true },
+  { id: 'exclude-not-a-fix', column: '*', match: 'contains', pattern: 'not a fix', negate: false, action: 'exclude', enabled: true },
+  includeRule('include-fix', 'fix'),
+  includeRule('include-pickup', 'pickup'),
+  // Post QC editors describe the problem instead of writing "fix"
+  includeRule('include-error', 'error', 'EDITOR COMMENTS'),
+  includeRule('include-omit', 'omit', 'EDITOR COMMENTS'),
+  includeRule('include-insert', 'insert', 'EDITOR COMMENTS'),
+  includeRule('include-missing', 'missing', 'EDITOR COMMENTS'),
+];
+
+@Injectable({ providedIn: 'root' })
+export class StatusRuleService {
+  readonly rules = signal<StatusRule[]>(this.load());
+
+  setRules(rules: StatusRule[]): void {
+    this.rules.set(rules);
+    this.persist();
+  }
+
+  resetToDefaults(): void {
+    this.rules.set(DEFAULT_STATUS_RULES.map(rule => ({ ...rule })));
+    localStorage.removeItem(STORAGE_KEY);
+  }
+
+  /** Whether the rule's pattern matches a single cell, before negation. */
+  matchesCell(rule: StatusRule, cellText: string): boolean {
+    // Dashes vary between spreadsheets ("approved – not a fix"), so compare them as plain hyphens
+    const value = cellText.trim().toLowerCase().replace(/[‐-―]/g, '-');
+    const pattern = rule.pattern.trim().toLowerCase().replace(/[‐-―]/g, '-');
+    switch (rule.match) {
+      case 'exact':
+        return value === pattern;
+      case 'contains':
+        return pattern !== '' && value.includes(pattern);
+      case 'regex':
+        try {
+          return new RegExp(rule.pattern, 'i').test(cellText);
+        } catch {
+          return false;
+        }
+    }
+  }
+
+  describe(rule: StatusRule): string {
+    const column = rule.column === '*' ? 'status' : rule.column;
+    const verb = rule.negate
+      ? { exact: 'is not', contains: 'does not contain', regex: 'does not match' }[rule.match]
+      : { exact: 'is', contains: 'contains', regex: 'matches' }[rule.match];
+    return `${column} ${verb} "${rule.pattern}"`;
+  }
+
+  private load(): StatusRule[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const parsed = raw ? JSON.parse(raw) : null;
+      if (Array.isArray(parsed)) return parsed;
+    } catch (error) {
+      console.warn('Could not read saved status rules:', error);
+    }
+    return DEFAULT_STATUS_RULES.map(rule => ({ ...rule }));
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.rules()));
+    } catch (error) {
+      console.warn('Could not save status rules:', error);
+    }
+  }
+}
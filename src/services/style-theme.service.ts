@@ -0,0 +1,128 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { CORRECTION_TYPES, CorrectionType, MarkStyle, StyleTheme } from '../models';
+
+const STORAGE_KEY = 'qcPackGenerator.styleThemes';
+const CHOICES_KEY = 'qcPackGenerator.styleThemeChoices';
+
+// Which theme each kind of project uses, by theme id
+interface ThemeChoices {
+  standard: string;
+  audible: string;
+}
+
+const everyType = (style: MarkStyle): Record<CorrectionType, MarkStyle> =>
+  Object.fromEntries(CORRECTION_TYPES.map(info => [info.type, { ...style }])) as Record<CorrectionType, MarkStyle>;
+
+// Black marks: the phrase underlined in its type's line style, the words picked up circled
+export const STANDARD_THEME: StyleTheme = {
+  id: 'standard',
+  name: 'Standard',
+  builtIn: true,
+  marks: everyType({ enabled: true, kind: 'underline', color: '#000000', opacity: 1, thickness: 1, padding: 2 }),
+  words: { enabled: true, kind: 'oblong', color: '#000000', opacity: 1, thickness: 1, padding: 10 },
+  notes: { fontSize: 10, textColor: '#000000', backgroundColor: '#ffffff', borderColor: '#000000' },
+};
+
+// The sentences round each pickup highlighted; the red underline under the words themselves is off by default
+export const AUDIBLE_THEME: StyleTheme = {
+  id: 'audible',
+  name: 'Audible',
+  builtIn: true,
+  marks: everyType({ enabled: true, kind: 'highlight', color: '#ffff00', opacity: 0.75, thickness: 1, padding: 2 }),
+  words: { enabled: false, kind: 'underline', color: '#ff0000', opacity: 1, thickness: 0.5, padding: 2 },
+  notes: { fontSize: 10, textColor: '#000000', backgroundColor: '#ffffff', borderColor: '#000000' },
+};
+
+const PRESETS = [STANDARD_THEME, AUDIBLE_THEME];
+const DEFAULT_CHOICES: ThemeChoices = { standard: STANDARD_THEME.id, audible: AUDIBLE_THEME.id };
+
+/** Red, green and blue, 0–1, of a #rrggbb colour; black if it can't be read. */
+export function colorComponents(hex: string): [number, number, number] {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim());
+  if (!match) return [0, 0, 0];
+  return [1, 2, 3].map(i => parseInt(match[i], 16) / 255) as [number, number, number];
+}
+
+@Injectable({ providedIn: 'root' })
+export class StyleThemeService {
+  private saved = signal<StyleTheme[]>(this.load());
+  private choices = signal<ThemeChoices>(this.loadChoices());
+
+  readonly themes = computed(() => [...PRESETS, ...this.saved()]);
+
+  /** The theme a standard or Audible project is drawn with. */
+  themeFor(audible: boolean): StyleTheme {
+    const id = this.choices()[audible ? 'audible' : 'standard'];
+    return this.themes().find(t => t.id === id) ?? (audible ? AUDIBLE_THEME : STANDARD_THEME);
+  }
+
+  choose(audible: boolean, id: string): void {
+    this.choices.update(choices => ({ ...choices, [audible ? 'audible' : 'standard']: id }));
+    this.persistChoices();
+  }
+
+  /** Saves a copy of the theme under a new name and returns it. */
+  saveAs(theme: StyleTheme, name: string): StyleTheme {
+    const copy: StyleTheme = { ...structuredClone(theme), id: `custom-${Date.now()}`, name, builtIn: false };
+    this.saved.update(themes => [...themes, copy]);
+    this.persist();
+    return copy;
+  }
+
+  update(theme: StyleTheme): void {
+    if (theme.builtIn) return;
+    this.saved.update(themes => themes.map(t => t.id === theme.id ? theme : t));
+    this.persist();
+  }
+
+  delete(id: string): void {
+    this.saved.update(themes => themes.filter(t => t.id !== id));
+    this.persist();
+    // Projects using it go back to their preset
+    this.choices.update(choices => ({
+      standard: choices.standard === id ? DEFAULT_CHOICES.standard : choices.standard,
+      audible: choices.audible === id ? DEFAULT_CHOICES.audible : choices.audible,
+    }));
+    this.persistChoices();
+  }
+
+  private load(): StyleTheme[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const parsed = raw ? JSON.parse(raw) : [];
+      // Correction types added since a theme was saved take the standard look
+      return Array.isArray(parsed)
+        ? parsed.map((theme: StyleTheme) => ({ ...theme, marks: { ...STANDARD_THEME.marks, ...theme.marks } }))
+        : [];
+    } catch (error) {
+      console.warn('Could not read saved style themes:', error);
+      return [];
+    }
+  }
+
+  private loadChoices(): ThemeChoices {
+    try {
+      const raw = localStorage.getItem(CHOICES_KEY);
+      return { ...DEFAULT_CHOICES, ...(raw ? JSON.parse(raw) : {}) };
+    } catch (error) {
+      console.warn('Could not read the chosen style themes:', error);
+      return { ...DEFAULT_CHOICES };
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.saved()));
+    } catch (error) {
+      console.warn('Could not save style themes:', error);
+    }
+  }
+
+  private persistChoices(): void {
+    try {
+      localStorage.setItem(CHOICES_KEY, JSON.stringify(this.choices()));
+    } catch (error) {
+      console.warn('Could not save the chosen style themes:', error);
+    }
+  }
+}
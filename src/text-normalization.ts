@@ -0,0 +1,103 @@
+// Text folding shared by every comparison of report text against script text, so a phrase
+// normalizes the same way whichever side it comes from.
+
+export interface NormalizedText {
+  normalizedText: string;
+  originalIndices: number[]; // originalIndices[k] is the index in the source string that normalizedText[k] came from
+}
+
+const APOSTROPHES = /['‘’‚‛ʼ′`´]/;
+const HYPHENS = /[-‐‑]/; // Joining hyphens; other dashes separate words
+const SOFT_HYPHEN = '\u00AD';
+const WORD_CHARACTER = /[\p{L}\p{N}\p{M}']/u;
+const MARK = /^\p{M}+$/u;
+const LETTER = /\p{L}/u;
+
+// Accents are only dropped in alphabets where they are decoration for matching purposes;
+// in Devanagari, Thai, Arabic and the like the marks are part of the word
+const STRIPS_MARKS = /\p{Script=Latin}|\p{Script=Greek}|\p{Script=Cyrillic}/u;
+
+// Letters NFKD leaves alone
+const EXTRA_FOLDS: Record<string, string> = {
+  'ß': 'ss', 'æ': 'ae', 'œ': 'oe', 'ø': 'o', 'đ': 'd', 'ð': 'd', 'þ': 'th', 'ł': 'l', 'ı': 'i', 'ς': 'σ',
+};
+
+/**
+ * Folds one character for comparison: lower case, compatibility forms (ligatures, full-width and
+ * superscript forms, the ellipsis) expanded, accents stripped from Latin, Greek and Cyrillic letters,
+ * and every kind of apostrophe made "'". May return more than one character.
+ */
+export function foldCharacter(ch: string): string {
+  if (APOSTROPHES.test(ch)) return "'";
+  const lower = ch.toLowerCase();
+  const base = lower.normalize('NFKD').replace(/\p{M}/gu, '');
+  if (base && STRIPS_MARKS.test(base)) {
+    return Array.from(base, c => EXTRA_FOLDS[c] ?? c).join('');
+  }
+  return lower.normalize('NFKC');
+}
+
+/**
+ * Folds the text and reduces it to words separated by single spaces, remembering where every
+ * character came from. Punctuation, dashes and quotes become word breaks; a hyphen directly
+ * followed by a letter (a line-break or compound hyphen) and soft hyphens are dropped.
+ */
+export function normalizeAndMap(s: string): NormalizedText {
+  let normalizedText = '';
+  const originalIndices: number[] = [];
+  if (!s) return { normalizedText, originalIndices };
+
+  let breakAt = -1; // Source index of a pending word break
+  let marksFoldAway = false;
+
+  for (let i = 0; i < s.length;) {
+    const ch = String.fromCodePoint(s.codePointAt(i)!);
+    const next = i + ch.length < s.length ? String.fromCodePoint(s.codePointAt(i + ch.length)!) : '';
+    const index = i;
+    i += ch.length;
+
+    if (ch === SOFT_HYPHEN) continue;
+    if (HYPHENS.test(ch) && LETTER.test(next)) continue;
+    if (MARK.test(ch) && marksFoldAway) continue; // A combining accent after a base letter
+
+    const folded = foldCharacter(ch);
+    marksFoldAway = STRIPS_MARKS.test(folded);
+    for (const c of folded) {
+      if (WORD_CHARACTER.test(c)) {
+        if (breakAt !== -1 && normalizedText) {
+          normalizedText += ' ';
+          originalIndices.push(breakAt);
+        }
+        breakAt = -1;
+        normalizedText += c;
+        for (let unit = 0; unit < c.length; unit++) originalIndices.push(index);
+      } else if (breakAt === -1) {
+        breakAt = index;
+      }
+    }
+  }
+  return { normalizedText, originalIndices };
+}
+
+/** Folded words separated by single spaces, for comparing phrases. */
+export function normalizeForSearch(s: string): string {
+  return normalizeAndMap(s).normalizedText;
+}
+
+/** Folded letters and digits only, with no breaks at all, for matching through stray spacing and punctuation. */
+export function compactAndMap(s: string): NormalizedText {
+  const { normalizedText, originalIndices } = normalizeAndMap(s);
+  let compact = '';
+  const indices: number[] = [];
+  for (let k = 0; k < normalizedText.length; k++) {
+    if (normalizedText[k] === ' ' || normalizedText[k] === "'") continue;
+    compact += normalizedText[k];
+    indices.push(originalIndices[k]);
+  }
+  return { normalizedText: compact, originalIndices: indices };
+}
+
+/** Whether the (unfolded) character can be part of a word, in any script. */
+export function isWordCharacter(ch: string): boolean {
+  return WORD_CHARACTER.test(ch) || APOSTROPHES.test(ch);
+}